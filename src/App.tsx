@@ -1,52 +1,157 @@
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { createBrowserRouter, createRoutesFromElements, Navigate, Outlet, Route, RouterProvider } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
+import { NotesProvider } from './contexts/NotesProvider';
+import { ThemeProvider } from './contexts/ThemeProvider';
+import { LocaleProvider } from './contexts/LocaleProvider';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { GuestRoute } from './components/GuestRoute';
+import { GlobalShortcuts } from './components/GlobalShortcuts';
 import SignUp from './pages/SignUp';
 import SignIn from './pages/SignIn';
 import Dashboard from './pages/Dashboard';
 import Welcome from './pages/Welcome';
+import NoteDetail from './pages/NoteDetail';
+import TagManager from './pages/TagManager';
+import AuthCallback from './pages/AuthCallback';
+import NotFound from './pages/NotFound';
+import Settings from './pages/Settings';
+import ImportNotes from './pages/ImportNotes';
+import SharedLinks from './pages/SharedLinks';
+import SharedNote from './pages/SharedNote';
 import './App.css';
 
+// The shell every page renders in
+const Layout = () => (
+  <div className="min-h-screen bg-gray-50">
+    <Outlet />
+    <GlobalShortcuts />
+    <Toaster 
+      position="top-right"
+      toastOptions={{
+        duration: 4000,
+        // Theme variables from tailwind.themes.js, so toasts follow light and dark mode
+        style: {
+          background: 'rgb(var(--bg-white))',
+          color: 'rgb(var(--text-gray-900))',
+          border: '1px solid rgb(var(--border-gray-200))',
+        },
+      }}
+    />
+  </div>
+);
+
+// A data router, so a page can hold back navigation, e.g. away from unsaved edits
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route element={<Layout />}>
+      <Route 
+        path="/signup" 
+        element={
+          <GuestRoute>
+            <SignUp />
+          </GuestRoute>
+        } 
+      />
+      <Route 
+        path="/signin" 
+        element={
+          <GuestRoute>
+            <SignIn />
+          </GuestRoute>
+        } 
+      />
+      <Route path="/auth/callback" element={<AuthCallback />} />
+      <Route path="/shared/:token" element={<SharedNote />} />
+      <Route 
+        path="/welcome" 
+        element={
+          <ProtectedRoute>
+            <Welcome />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/dashboard" 
+        element={
+          <ProtectedRoute>
+            <Dashboard />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/archive" 
+        element={
+          <ProtectedRoute>
+            <Dashboard view="archive" />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/trash" 
+        element={
+          <ProtectedRoute>
+            <Dashboard view="trash" />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/notes/:id" 
+        element={
+          <ProtectedRoute>
+            <NoteDetail />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/tags" 
+        element={
+          <ProtectedRoute>
+            <TagManager />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/import" 
+        element={
+          <ProtectedRoute>
+            <ImportNotes />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/shares" 
+        element={
+          <ProtectedRoute>
+            <SharedLinks />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/settings" 
+        element={
+          <ProtectedRoute>
+            <Settings />
+          </ProtectedRoute>
+        } 
+      />
+      <Route path="/" element={<Navigate to="/signin" replace />} />
+      <Route path="*" element={<NotFound />} />
+    </Route>
+  )
+);
+
 function App() {
   return (
-    <AuthProvider>
-      <Router>
-        <div className="min-h-screen bg-gray-50">
-          <Routes>
-            <Route path="/signup" element={<SignUp />} />
-            <Route path="/signin" element={<SignIn />} />
-            <Route 
-              path="/welcome" 
-              element={
-                <ProtectedRoute>
-                  <Welcome />
-                </ProtectedRoute>
-              } 
-            />
-            <Route 
-              path="/dashboard" 
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              } 
-            />
-            <Route path="/" element={<Navigate to="/signin" replace />} />
-          </Routes>
-          <Toaster 
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-            }}
-          />
-        </div>
-      </Router>
-    </AuthProvider>
+    <LocaleProvider>
+      <ThemeProvider>
+        <AuthProvider>
+          <NotesProvider>
+            <RouterProvider router={router} />
+          </NotesProvider>
+        </AuthProvider>
+      </ThemeProvider>
+    </LocaleProvider>
   );
 }
 
@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import { FileText, Search } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import { fuzzyFilter } from '../utils/fuzzy';
+
+export interface Command {
+  id: string;
+  label: string;
+  // Shown on the right, e.g. a shortcut or "Archived"
+  hint?: string;
+  icon?: LucideIcon;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  actions: Command[];
+  notes: Command[];
+  onClose: () => void;
+}
+
+// Notes listed before anything has been typed
+const RECENT_NOTE_COUNT = 5;
+const MAX_RESULTS = 50;
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ actions, notes, onClose }) => {
+  const { t } = useLocale();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return [...actions, ...notes.slice(0, RECENT_NOTE_COUNT)];
+    return fuzzyFilter([...actions, ...notes], query, (command) => command.label).slice(0, MAX_RESULTS);
+  }, [actions, notes, query]);
+
+  const run = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 px-4 pt-24" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.label')}
+        className="w-full max-w-md rounded-lg bg-white shadow-lg overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center border-b px-3">
+          <Search className="h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            autoFocus
+            placeholder={t('palette.placeholder')}
+            aria-label={t('palette.searchLabel')}
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `command-${results[activeIndex].id}` : undefined}
+            className="flex-1 px-3 py-3 text-sm focus:outline-none"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">{t('palette.noResults')}</p>
+        ) : (
+          <ul id="command-palette-results" role="listbox" className="max-h-80 overflow-y-auto py-1">
+            {results.map((command, index) => {
+              const Icon = command.icon ?? FileText;
+              return (
+                <li
+                  key={command.id}
+                  id={`command-${command.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => run(command)}
+                  className={`flex items-center space-x-3 px-4 py-2 text-sm cursor-pointer ${
+                    index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-700'
+                  }`}
+                >
+                  <Icon className="h-4 w-4 shrink-0 text-gray-400" />
+                  <span className="flex-1 truncate">{command.label}</span>
+                  {command.hint && <span className="text-xs text-gray-400">{command.hint}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
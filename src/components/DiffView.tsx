@@ -0,0 +1,36 @@
+import { diffLines } from '../utils/diff';
+import type { DiffLineType } from '../utils/diff';
+
+interface DiffViewProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+const lineStyles: Record<DiffLineType, string> = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300'
+};
+
+const linePrefix: Record<DiffLineType, string> = {
+  same: ' ',
+  added: '+',
+  removed: '-'
+};
+
+// Line-by-line comparison: removed lines in red, added lines in green
+export const DiffView: React.FC<DiffViewProps> = ({ before, after, className = '' }) => {
+  const lines = diffLines(before, after);
+
+  return (
+    <div className={`rounded-md border bg-white font-mono text-xs overflow-auto ${className}`}>
+      {lines.map((line, index) => (
+        <div key={index} className={`flex px-2 whitespace-pre-wrap break-words ${lineStyles[line.type]}`}>
+          <span className="select-none w-4 shrink-0 text-gray-400">{linePrefix[line.type]}</span>
+          <span className="flex-1">{line.text || ' '}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
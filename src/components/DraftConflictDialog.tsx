@@ -0,0 +1,85 @@
+import { GitCompare } from 'lucide-react';
+import { DiffView } from './DiffView';
+import { useLocale } from '../contexts/LocaleContext';
+import type { Note } from '../types/note';
+import type { NoteDraft } from '../utils/drafts';
+
+interface DraftConflictDialogProps {
+  note: Note;
+  draft: NoteDraft;
+  onKeepDraft: () => void;
+  onKeepSaved: () => void;
+  onClose: () => void;
+}
+
+// Shown when a note was saved elsewhere after a local draft of it was started
+export const DraftConflictDialog: React.FC<DraftConflictDialogProps> = ({
+  note,
+  draft,
+  onKeepDraft,
+  onKeepSaved,
+  onClose
+}) => {
+  const { t } = useLocale();
+  const savedTags = note.tags.join(', ');
+  const draftTags = draft.tags.join(', ');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="draft-conflict-title"
+        className="w-full max-w-lg rounded-lg bg-white p-6 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-2 mb-1">
+          <GitCompare className="h-5 w-5 text-amber-600" />
+          <h2 id="draft-conflict-title" className="text-lg font-semibold text-gray-900">
+            {t('draftConflict.title')}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('draftConflict.description')}
+        </p>
+
+        <div className="mt-4 space-y-3 text-sm">
+          {note.title !== draft.title && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">{t('note.titleLabel')}</p>
+              <DiffView before={note.title} after={draft.title} />
+            </div>
+          )}
+          {savedTags !== draftTags && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">{t('note.tagsLabel')}</p>
+              <DiffView before={savedTags} after={draftTags} />
+            </div>
+          )}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">{t('note.contentLabel')}</p>
+            <DiffView before={note.content} after={draft.content} className="max-h-72" />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onKeepSaved}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('draftConflict.keepSaved')}
+          </button>
+          <button
+            type="button"
+            onClick={onKeepDraft}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t('draftConflict.keepDraft')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { exportNotes } from '../utils/noteTransfer';
+import type { ExportFormat } from '../utils/noteTransfer';
+import type { Note } from '../types/note';
+import type { MessageKey } from '../locales/en';
+
+interface ExportDialogProps {
+  notes: Note[];
+  onClose: () => void;
+}
+
+const formats: { format: ExportFormat; label: string; description: MessageKey }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'export.markdownDescription' },
+  { format: 'json', label: 'JSON', description: 'export.jsonDescription' }
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ notes, onClose }) => {
+  const { t } = useLocale();
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [zip, setZip] = useState(false);
+
+  // More than one Markdown file can only be downloaded as a bundle
+  const zipRequired = format === 'markdown' && notes.length > 1;
+
+  const handleExport = () => {
+    try {
+      exportNotes(notes, format, zip || zipRequired);
+      onClose();
+    } catch {
+      toast.error(t('export.failed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+        className="w-full max-w-sm rounded-lg bg-white p-6 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-2 mb-1">
+          <Download className="h-5 w-5 text-blue-600" />
+          <h2 id="export-title" className="text-lg font-semibold text-gray-900">
+            {t('export.title', { count: notes.length })}
+          </h2>
+        </div>
+        {notes.length === 1 && (
+          <p className="text-sm text-gray-600 truncate mb-2">{notes[0].title}</p>
+        )}
+
+        <fieldset className="mt-4 space-y-2">
+          <legend className="sr-only">{t('export.format')}</legend>
+          {formats.map((option) => (
+            <label
+              key={option.format}
+              className={`flex items-start space-x-3 rounded-md border p-3 cursor-pointer ${
+                format === option.format ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="export-format"
+                value={option.format}
+                checked={format === option.format}
+                onChange={() => setFormat(option.format)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{t(option.description)}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <label className="mt-4 flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={zip || zipRequired}
+            disabled={zipRequired}
+            onChange={(e) => setZip(e.target.checked)}
+          />
+          <span>{t('export.zip')}</span>
+        </label>
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={notes.length === 0}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {t('dashboard.export')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Archive,
+  FilePlus,
+  Keyboard,
+  LogOut,
+  Search,
+  Settings,
+  Share2,
+  StickyNote,
+  Tags,
+  Trash2,
+  Upload
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotes } from '../contexts/NotesContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { CommandPalette } from './CommandPalette';
+import type { Command } from './CommandPalette';
+import { ShortcutHelp } from './ShortcutHelp';
+import type { NoteListCommand } from '../utils/shortcuts';
+
+type Overlay = 'palette' | 'help' | null;
+
+// App-wide shortcuts for signed-in users: the Ctrl/Cmd+K palette, the "?"
+// overlay and signing out. The note list adds its own in Dashboard.
+export const GlobalShortcuts: React.FC = () => {
+  const { user } = useAuth();
+  const { notes, signOut } = useNotes();
+  const navigate = useNavigate();
+  const { t } = useLocale();
+  const [overlay, setOverlay] = useState<Overlay>(null);
+
+  const handleSignOut = async () => {
+    if (await signOut()) toast.success(t('common.loggedOut'));
+  };
+
+  useHotkeys([
+    {
+      combo: 'mod+k',
+      handler: () => setOverlay((current) => (current === 'palette' ? null : 'palette')),
+      allowWhileTyping: true,
+      allowInDialogs: overlay === 'palette'
+    },
+    {
+      combo: '?',
+      handler: () => setOverlay((current) => (current === 'help' ? null : 'help')),
+      allowInDialogs: overlay === 'help'
+    },
+    {
+      combo: 'shift+q',
+      handler: () => {
+        if (window.confirm(t('shortcuts.signOutConfirm'))) handleSignOut();
+      }
+    },
+    // Only claim Escape while an overlay is open so the page keeps it otherwise
+    ...(overlay ? [{ combo: 'escape', handler: () => setOverlay(null), allowInDialogs: true }] : [])
+  ], Boolean(user));
+
+  const sendToNoteList = (command: NoteListCommand) => navigate('/dashboard', { state: { command } });
+
+  const actions: Command[] = [
+    { id: 'new-note', label: t('shortcuts.newNote'), hint: 'N', icon: FilePlus, run: () => sendToNoteList('new-note') },
+    { id: 'search', label: t('shortcuts.search'), hint: '/', icon: Search, run: () => sendToNoteList('search') },
+    { id: 'go-notes', label: t('palette.goToNotes'), icon: StickyNote, run: () => navigate('/dashboard') },
+    { id: 'go-archive', label: t('palette.goToArchive'), icon: Archive, run: () => navigate('/archive') },
+    { id: 'go-trash', label: t('palette.goToTrash'), icon: Trash2, run: () => navigate('/trash') },
+    { id: 'go-tags', label: t('palette.manageTags'), icon: Tags, run: () => navigate('/tags') },
+    { id: 'go-import', label: t('palette.importNotes'), icon: Upload, run: () => navigate('/import') },
+    { id: 'go-shares', label: t('palette.sharedLinks'), icon: Share2, run: () => navigate('/shares') },
+    { id: 'go-settings', label: t('palette.settings'), icon: Settings, run: () => navigate('/settings') },
+    { id: 'shortcuts', label: t('shortcuts.title'), hint: '?', icon: Keyboard, run: () => setOverlay('help') },
+    { id: 'sign-out', label: t('shortcuts.signOut'), hint: 'Shift Q', icon: LogOut, run: handleSignOut }
+  ];
+
+  const noteCommands = useMemo<Command[]>(
+    () => notes
+      .filter((note) => note.deletedAt === null)
+      .map((note) => ({
+        id: `note-${note._id}`,
+        label: note.title,
+        hint: note.isArchived ? t('note.archived') : undefined,
+        run: () => navigate(`/notes/${note._id}`)
+      })),
+    [notes, navigate, t]
+  );
+
+  if (!user) return null;
+
+  return (
+    <>
+      {overlay === 'palette' && (
+        <CommandPalette actions={actions} notes={noteCommands} onClose={() => setOverlay(null)} />
+      )}
+      {overlay === 'help' && <ShortcutHelp onClose={() => setOverlay(null)} />}
+    </>
+  );
+};
@@ -0,0 +1,27 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getRedirectTarget } from '../utils/redirect';
+
+interface GuestRouteProps {
+  children: React.ReactNode;
+}
+
+// For pages only signed-out users need, like sign in and sign up
+export const GuestRoute: React.FC<GuestRouteProps> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  if (user) {
+    return <Navigate to={getRedirectTarget(location.state)} replace />;
+  }
+
+  return <>{children}</>;
+};
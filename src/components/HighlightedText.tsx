@@ -0,0 +1,22 @@
+import { splitByTerms } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  return (
+    <>
+      {splitByTerms(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+};
@@ -0,0 +1,52 @@
+import { Clock } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface IdleWarningDialogProps {
+  secondsLeft: number;
+  onStay: () => void;
+  onSignOut: () => void;
+}
+
+export const IdleWarningDialog: React.FC<IdleWarningDialogProps> = ({ secondsLeft, onStay, onSignOut }) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-warning-title"
+        aria-describedby="idle-warning-description"
+        className="w-full max-w-sm rounded-lg bg-white p-6 shadow-lg"
+      >
+        <div className="flex items-center space-x-2 mb-2">
+          <Clock className="h-5 w-5 text-primary-600" />
+          <h2 id="idle-warning-title" className="text-lg font-semibold text-gray-900">
+            {t('idle.title')}
+          </h2>
+        </div>
+        <p id="idle-warning-description" className="text-sm text-gray-600">
+          {t('idle.description')}{' '}
+          <span className="font-medium text-gray-900">{t('idle.seconds', { count: secondsLeft })}</span>
+        </p>
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('idle.signOut')}
+          </button>
+          <button
+            type="button"
+            onClick={onStay}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            {t('idle.stay')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { Languages } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import { locales } from '../config/locales';
+import type { Locale } from '../config/locales';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className={`flex items-center space-x-1 text-gray-500 ${className}`} title={t('language.label')}>
+      <Languages className="h-5 w-5" />
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent text-sm text-gray-700 focus:outline-none"
+      >
+        {locales.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,174 @@
+import { useRef, useState } from 'react';
+import { Bold, Italic, Heading, List, ListOrdered, Code, Link as LinkIcon } from 'lucide-react';
+import { MarkdownView } from './MarkdownView';
+import { useLocale } from '../contexts/LocaleContext';
+import { t } from '../utils/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  maxLength?: number;
+  placeholder?: string;
+  // Show the preview next to the textarea on large screens
+  sideBySide?: boolean;
+}
+
+interface EditResult {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+type Formatter = (value: string, start: number, end: number) => EditResult;
+
+// Placeholder text is looked up when inserted, in the language shown then
+const wrapSelection = (before: string, after: string, placeholder?: MessageKey): Formatter => {
+  return (value, start, end) => {
+    const selected = value.slice(start, end) || (placeholder ? t(placeholder) : '');
+    return {
+      value: value.slice(0, start) + before + selected + after + value.slice(end),
+      selectionStart: start + before.length,
+      selectionEnd: start + before.length + selected.length
+    };
+  };
+};
+
+// Apply a prefix to every line touched by the selection
+const prefixLines = (getPrefix: (index: number) => string): Formatter => {
+  return (value, start, end) => {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = value.indexOf('\n', end);
+    const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+    const block = value
+      .slice(lineStart, lineEnd)
+      .split('\n')
+      .map((line, index) => getPrefix(index) + line)
+      .join('\n');
+
+    return {
+      value: value.slice(0, lineStart) + block + value.slice(lineEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + block.length
+    };
+  };
+};
+
+const formatCode: Formatter = (value, start, end) => {
+  const selected = value.slice(start, end);
+  return selected.includes('\n')
+    ? wrapSelection('```\n', '\n```')(value, start, end)
+    : wrapSelection('`', '`', 'editor.placeholder.code')(value, start, end);
+};
+
+const formatLink: Formatter = (value, start, end) => {
+  const text = value.slice(start, end) || t('editor.placeholder.link');
+  const url = 'https://';
+  const inserted = `[${text}](${url})`;
+  const urlStart = start + text.length + 3;
+  return {
+    value: value.slice(0, start) + inserted + value.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length
+  };
+};
+
+const toolbarActions: { label: MessageKey; Icon: typeof Bold; format: Formatter }[] = [
+  { label: 'editor.bold', Icon: Bold, format: wrapSelection('**', '**', 'editor.placeholder.bold') },
+  { label: 'editor.italic', Icon: Italic, format: wrapSelection('_', '_', 'editor.placeholder.italic') },
+  { label: 'editor.heading', Icon: Heading, format: prefixLines(() => '## ') },
+  { label: 'editor.bulletedList', Icon: List, format: prefixLines(() => '- ') },
+  { label: 'editor.numberedList', Icon: ListOrdered, format: prefixLines((index) => `${index + 1}. `) },
+  { label: 'editor.code', Icon: Code, format: formatCode },
+  { label: 'editor.link', Icon: LinkIcon, format: formatLink }
+];
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  id,
+  value,
+  onChange,
+  rows = 4,
+  maxLength,
+  placeholder,
+  sideBySide = false
+}) => {
+  const { t } = useLocale();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mode, setMode] = useState<'write' | 'preview'>('write');
+
+  const applyFormat = (format: Formatter) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = format(value, textarea.selectionStart, textarea.selectionEnd);
+    if (maxLength !== undefined && result.value.length > maxLength) return;
+
+    onChange(result.value);
+    // Restore focus and selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-1 text-xs font-medium rounded ${
+      active ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+    }`;
+
+  return (
+    <div className="border border-gray-300 rounded-md focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+      <div className="flex items-center justify-between border-b border-gray-200 bg-gray-50 rounded-t-md px-2 py-1">
+        <div className="flex items-center space-x-1">
+          {toolbarActions.map(({ label, Icon, format }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => applyFormat(format)}
+              disabled={mode === 'preview'}
+              className="p-1 text-gray-500 hover:text-gray-900 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+              title={t(label)}
+              aria-label={t(label)}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-1 bg-gray-100 rounded p-0.5">
+          <button type="button" onClick={() => setMode('write')} className={tabClass(mode === 'write')}>
+            {t('editor.write')}
+          </button>
+          <button type="button" onClick={() => setMode('preview')} className={tabClass(mode === 'preview')}>
+            {t('editor.preview')}
+          </button>
+        </div>
+      </div>
+
+      <div className={sideBySide && mode === 'write' ? 'lg:grid lg:grid-cols-2 lg:divide-x lg:divide-gray-200' : ''}>
+        {mode === 'write' && (
+          <textarea
+            ref={textareaRef}
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={rows}
+            className="block w-full px-3 py-2 rounded-b-md border-0 focus:outline-none focus:ring-0 resize-y font-mono text-sm"
+            placeholder={placeholder}
+            maxLength={maxLength}
+          />
+        )}
+        {(mode === 'preview' || sideBySide) && (
+          <div className={`px-3 py-2 min-h-24 text-sm text-gray-700 overflow-y-auto ${mode === 'write' ? 'hidden lg:block' : ''}`}>
+            {value.trim() ? (
+              <MarkdownView content={value} />
+            ) : (
+              <p className="text-gray-400">{t('editor.nothingToPreview')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
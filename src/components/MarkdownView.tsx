@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { renderMarkdown } from '../utils/markdown';
+
+interface MarkdownViewProps {
+  content: string;
+  className?: string;
+}
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ content, className = '' }) => {
+  // renderMarkdown sanitizes its output, which is what makes the innerHTML safe
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
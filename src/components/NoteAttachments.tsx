@@ -0,0 +1,284 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText, Paperclip, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { useNotes } from '../contexts/NotesContext';
+import { attachments as attachmentsApi } from '../utils/apiClient';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_NOTE,
+  checkAttachment,
+  formatFileSize,
+  getFileType,
+  isImageAttachment
+} from '../utils/attachments';
+import { isLocalId } from '../utils/offlineStore';
+import { isDialogOpen } from '../utils/shortcuts';
+import type { Attachment, Note } from '../types/note';
+
+interface NoteAttachmentsProps {
+  note: Note;
+}
+
+interface Upload {
+  id: string;
+  name: string;
+  // 0 to 1
+  progress: number;
+  controller: AbortController;
+}
+
+// Files attached to a note, with a drop zone for adding more. Files can also be
+// pasted anywhere on the page, including into the editor.
+export const NoteAttachments: React.FC<NoteAttachmentsProps> = ({ note }) => {
+  const { t } = useLocale();
+  const { isOnline, addAttachment, removeAttachment } = useNotes();
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Files are stored by the server, so the note has to exist there first; the
+  // trash is read-only
+  const canChange = isOnline && !isLocalId(note._id) && note.deletedAt === null;
+
+  const setProgress = (id: string, progress: number) => {
+    setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, progress } : upload)));
+  };
+
+  const upload = async (file: File) => {
+    const entry: Upload = { id: crypto.randomUUID(), name: file.name, progress: 0, controller: new AbortController() };
+    setUploads((prev) => [...prev, entry]);
+
+    // Send the type the limits were checked against, even where the browser didn't know it
+    const typed = file.type ? file : new File([file], file.name, { type: getFileType(file) });
+    try {
+      const { attachment, note: saved } = await attachmentsApi.upload(note._id, typed, {
+        onProgress: (progress) => setProgress(entry.id, progress),
+        signal: entry.controller.signal
+      });
+      await addAttachment(note._id, attachment, saved.updatedAt);
+    } catch (error) {
+      if (toApiError(error).code !== 'CANCELLED') {
+        toast.error(getErrorMessage(error, t('attachments.toast.uploadFailed', { name: file.name })));
+      }
+    } finally {
+      setUploads((prev) => prev.filter((item) => item.id !== entry.id));
+    }
+  };
+
+  const handleFiles = (files: File[]) => {
+    if (!canChange) return;
+
+    let room = MAX_ATTACHMENTS_PER_NOTE - note.attachments.length - uploads.length;
+    for (const file of files) {
+      const problem = checkAttachment(file);
+      if (problem) {
+        toast.error(t(problem, { name: file.name, size: formatFileSize(MAX_ATTACHMENT_SIZE) }));
+      } else if (room <= 0) {
+        toast.error(t('attachments.error.tooMany', { count: MAX_ATTACHMENTS_PER_NOTE }));
+        return;
+      } else {
+        room -= 1;
+        upload(file);
+      }
+    }
+  };
+
+  // The paste listener is registered once but always sees the latest state
+  const handleFilesRef = useRef(handleFiles);
+
+  useEffect(() => {
+    handleFilesRef.current = handleFiles;
+  });
+
+  useEffect(() => {
+    if (!canChange) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []);
+      // Text copied from e.g. a word processor can come with an image of itself;
+      // that paste is meant for the editor
+      if (files.length === 0 || event.clipboardData?.types.includes('text/plain') || isDialogOpen()) return;
+      event.preventDefault();
+      handleFilesRef.current(files);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [canChange]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canChange || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  // Leaving for one of the section's own children doesn't count
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!(e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget))) setIsDragging(false);
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    // Let the same file be picked again after a failed upload
+    e.target.value = '';
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    if (!window.confirm(t('attachments.removeConfirm', { name: attachment.name }))) return;
+
+    setRemovingId(attachment._id);
+    try {
+      const saved = await attachmentsApi.remove(note._id, attachment._id);
+      await removeAttachment(note._id, attachment._id, saved.updatedAt);
+      toast.success(t('attachments.toast.removed', { name: attachment.name }));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('attachments.toast.removeFailed', { name: attachment.name })));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  // Nothing to show, and nothing that could be added
+  if (note.attachments.length === 0 && uploads.length === 0 && note.deletedAt !== null) return null;
+
+  return (
+    <section
+      className={`bg-white rounded-lg shadow-sm border p-4 mt-4 ${isDragging ? 'ring-2 ring-blue-500' : ''}`}
+      aria-labelledby="attachments-title"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <h3 id="attachments-title" className="flex items-center space-x-2 text-sm font-medium text-gray-900 mb-3">
+        <Paperclip className="h-4 w-4 text-gray-500" />
+        <span>{t('attachments.title')}</span>
+      </h3>
+
+      {note.attachments.length > 0 && (
+        <ul className="grid grid-cols-3 gap-2 mb-3">
+          {note.attachments.map((attachment) => (
+            <li key={attachment._id} className="relative rounded-md border overflow-hidden">
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                download={isImageAttachment(attachment) ? undefined : attachment.name}
+                className="block hover:opacity-90"
+                title={`${attachment.name} (${formatFileSize(attachment.size)})`}
+              >
+                {isImageAttachment(attachment) ? (
+                  <img
+                    src={attachment.url}
+                    alt={attachment.name}
+                    loading="lazy"
+                    className="h-24 w-full object-cover bg-gray-100"
+                  />
+                ) : (
+                  <div className="flex h-24 flex-col items-center justify-center bg-gray-50 px-2 text-center">
+                    <FileText className="h-6 w-6 text-gray-400 mb-1" />
+                    <span className="w-full truncate text-xs text-gray-700">{attachment.name}</span>
+                    <span className="text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+                  </div>
+                )}
+              </a>
+              {canChange && (
+                <button
+                  type="button"
+                  onClick={() => handleRemove(attachment)}
+                  disabled={removingId === attachment._id}
+                  className="absolute top-1 end-1 rounded-full bg-white/90 p-0.5 text-gray-500 shadow-sm hover:text-red-600 disabled:opacity-50"
+                  aria-label={t('attachments.remove', { name: attachment.name })}
+                  title={t('attachments.remove', { name: attachment.name })}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {uploads.map((item) => (
+            <li key={item.id} className="flex items-center space-x-2 text-xs text-gray-600">
+              <span className="w-24 truncate">{item.name}</span>
+              <div
+                role="progressbar"
+                aria-label={t('attachments.uploading', { name: item.name })}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(item.progress * 100)}
+                className="h-1.5 flex-1 rounded-full bg-gray-200 overflow-hidden"
+              >
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${item.progress * 100}%` }} />
+              </div>
+              <button
+                type="button"
+                onClick={() => item.controller.abort()}
+                className="text-gray-400 hover:text-gray-700"
+                aria-label={t('attachments.cancelUpload', { name: item.name })}
+                title={t('attachments.cancelUpload', { name: item.name })}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {note.deletedAt === null && (
+        canChange ? (
+          <div
+            className={`rounded-md border-2 border-dashed px-3 py-4 text-center text-sm ${
+              isDragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'
+            }`}
+          >
+            {isDragging ? (
+              t('attachments.dropping')
+            ) : (
+              <>
+                {t('attachments.dropHint')}{' '}
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {t('attachments.choose')}
+                </button>
+              </>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              {t('attachments.limits', {
+                count: MAX_ATTACHMENTS_PER_NOTE,
+                size: formatFileSize(MAX_ATTACHMENT_SIZE)
+              })}
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              onChange={handlePick}
+              className="hidden"
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {isLocalId(note._id) ? t('noteDetail.availableAfterSync') : t('attachments.offline')}
+          </p>
+        )
+      )}
+    </section>
+  );
+};
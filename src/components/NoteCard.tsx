@@ -0,0 +1,191 @@
+import { Link } from 'react-router-dom';
+import { Archive, ArchiveRestore, Paperclip, Pin, PinOff, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { HighlightedText } from './HighlightedText';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { MarkdownView } from './MarkdownView';
+import { useLocale } from '../contexts/LocaleContext';
+import { isImageAttachment } from '../utils/attachments';
+import { stripMarkdown } from '../utils/markdown';
+import { daysUntilPurge } from '../utils/notes';
+import type { NoteView } from '../utils/notes';
+import type { Note, SyncStatus } from '../types/note';
+
+interface NoteCardProps {
+  note: Note;
+  view: NoteView;
+  searchTerms: string[];
+  syncStatus: SyncStatus;
+  onTogglePin: (note: Note) => void;
+  onToggleArchive: (note: Note) => void;
+  onTrash: (note: Note) => void;
+  onRestore: (note: Note) => void;
+  onDeleteForever: (note: Note) => void;
+  onRetrySync: (noteId: string) => void;
+  onDiscardChanges: (noteId: string) => void;
+  // Shows a checkbox for picking notes, e.g. to export them
+  isSelected?: boolean;
+  onSelect?: (note: Note) => void;
+  // Highlighted as the target of keyboard shortcuts
+  isActive?: boolean;
+}
+
+const iconButtonClass = 'text-gray-400 ms-1 p-1';
+
+const MAX_THUMBNAILS = 3;
+
+export const NoteCard: React.FC<NoteCardProps> = ({
+  note,
+  view,
+  searchTerms,
+  syncStatus,
+  onTogglePin,
+  onToggleArchive,
+  onTrash,
+  onRestore,
+  onDeleteForever,
+  onRetrySync,
+  onDiscardChanges,
+  isSelected = false,
+  onSelect,
+  isActive = false
+}) => {
+  const { t } = useLocale();
+
+  return (
+    <div
+      className={`bg-white rounded-lg shadow-sm border p-4 ${view === 'notes' && note.isPinned ? 'border-blue-300' : ''} ${
+        isActive ? 'ring-2 ring-blue-500' : ''
+      }`}
+    >
+      <div className="flex justify-between items-start mb-2">
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onSelect(note)}
+            className="mt-1 me-2"
+            aria-label={t('noteCard.select', { title: note.title })}
+          />
+        )}
+        <Link
+          to={`/notes/${note._id}`}
+          className="text-base font-medium text-gray-900 truncate flex-1 hover:text-blue-600"
+        >
+          {view === 'notes' && note.isPinned && (
+            <Pin className="inline h-3.5 w-3.5 me-1 text-blue-600 fill-blue-600" aria-label={t('noteCard.pinned')} />
+          )}
+          <HighlightedText text={note.title} terms={searchTerms} />
+        </Link>
+        <div className="flex items-center">
+          {view === 'notes' && (
+            <button
+              onClick={() => onTogglePin(note)}
+              className={`${iconButtonClass} hover:text-blue-600`}
+              title={note.isPinned ? t('noteCard.unpin') : t('noteCard.pin')}
+            >
+              {note.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </button>
+          )}
+          {view !== 'trash' && (
+            <button
+              onClick={() => onToggleArchive(note)}
+              className={`${iconButtonClass} hover:text-gray-700`}
+              title={note.isArchived ? t('noteCard.unarchive') : t('noteCard.archive')}
+            >
+              {note.isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            </button>
+          )}
+          {view === 'trash' ? (
+            <>
+              <button
+                onClick={() => onRestore(note)}
+                className={`${iconButtonClass} hover:text-green-600`}
+                title={t('noteCard.restore')}
+              >
+                <RotateCcw className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onDeleteForever(note)}
+                className={`${iconButtonClass} hover:text-red-600`}
+                title={t('noteCard.deleteForever')}
+              >
+                <XCircle className="h-4 w-4" />
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => onTrash(note)}
+              className={`${iconButtonClass} hover:text-red-600`}
+              title={t('noteCard.trash')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      {searchTerms.length > 0 ? (
+        <p className="text-gray-600 text-sm mb-2 overflow-hidden" style={{
+          display: '-webkit-box',
+          WebkitLineClamp: 2,
+          WebkitBoxOrient: 'vertical'
+        }}>
+          <HighlightedText text={stripMarkdown(note.content)} terms={searchTerms} />
+        </p>
+      ) : (
+        <MarkdownView
+          content={note.content}
+          className="text-gray-600 text-sm mb-2 max-h-16 overflow-hidden"
+        />
+      )}
+      {note.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {note.tags.map((tag) => (
+            <span key={tag} className="bg-blue-50 text-blue-700 text-xs rounded-full px-2 py-0.5">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {note.attachments.length > 0 && (
+        <div className="flex items-center space-x-2 mb-2">
+          {note.attachments.filter(isImageAttachment).slice(0, MAX_THUMBNAILS).map((attachment) => (
+            <img
+              key={attachment._id}
+              src={attachment.url}
+              alt={attachment.name}
+              loading="lazy"
+              className="h-10 w-10 rounded border object-cover bg-gray-100"
+            />
+          ))}
+          <span className="flex items-center text-xs text-gray-500">
+            <Paperclip className="h-3.5 w-3.5 me-1" />
+            {t('noteCard.attachments', { count: note.attachments.length })}
+          </span>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <SyncStatusBadge status={syncStatus} />
+        {syncStatus === 'failed' ? (
+          <div className="flex space-x-3 text-xs">
+            <button
+              onClick={() => onRetrySync(note._id)}
+              className="font-medium text-blue-600 hover:text-blue-700"
+            >
+              {t('noteCard.retry')}
+            </button>
+            <button
+              onClick={() => onDiscardChanges(note._id)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              {t('noteCard.discardChanges')}
+            </button>
+          </div>
+        ) : view === 'trash' && (
+          <span className="text-xs text-gray-500">
+            {t('noteCard.purgeIn', { count: daysUntilPurge(note) })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
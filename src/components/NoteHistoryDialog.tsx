@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { useNotes } from '../contexts/NotesContext';
+import { DiffView } from './DiffView';
+import { notes as notesApi } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import { formatDate } from '../utils/i18n';
+import type { Note, NoteVersion } from '../types/note';
+
+interface NoteHistoryDialogProps {
+  note: Note;
+  onClose: () => void;
+}
+
+const formatVersionDate = (version: NoteVersion) =>
+  formatDate(version.createdAt, { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const matchesNote = (version: NoteVersion, note: Note) =>
+  version.title === note.title && version.content === note.content && version.tags.join(', ') === note.tags.join(', ');
+
+// Saved versions of a note. Any two can be compared, and restoring one saves
+// it as a new version so the history only ever grows.
+export const NoteHistoryDialog: React.FC<NoteHistoryDialogProps> = ({ note, onClose }) => {
+  const { t } = useLocale();
+  const { updateNote } = useNotes();
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Reloaded whenever the note changes, so a restore shows up once it has synced
+  useEffect(() => {
+    let cancelled = false;
+    notesApi
+      .listVersions(note._id)
+      .then((result) => {
+        if (cancelled) return;
+        setVersions(result);
+        // Start on the previous version, compared with the latest
+        setSelectedId(result[1]?._id ?? result[0]?._id ?? null);
+        setCompareId(result[0]?._id ?? null);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(getErrorMessage(error, t('history.toast.loadFailed')));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [note._id, note.updatedAt, t]);
+
+  const selected = versions.find((version) => version._id === selectedId);
+  const compared = versions.find((version) => version._id === compareId && version._id !== selectedId)
+    ?? versions.find((version) => version._id !== selectedId);
+  // Versions are newest first, so the later index is the older one
+  const [older, newer] = selected && compared && versions.indexOf(selected) < versions.indexOf(compared)
+    ? [compared, selected]
+    : [selected, compared];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      await updateNote(note._id, { title: selected.title, content: selected.content, tags: selected.tags });
+      toast.success(t('history.toast.restored', { date: formatVersionDate(selected) }));
+      onClose();
+    } catch {
+      toast.error(t('note.toast.updateFailed'));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-title"
+        className="w-full max-w-lg rounded-lg bg-white p-6 shadow-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-2 mb-1">
+          <History className="h-5 w-5 text-blue-600" />
+          <h2 id="history-title" className="text-lg font-semibold text-gray-900">
+            {t('history.title')}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('history.description')}
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          </div>
+        ) : versions.length < 2 ? (
+          <p className="py-4 text-sm text-gray-500">{t('history.empty')}</p>
+        ) : (
+          <>
+            <ul className="mt-4 rounded-md border divide-y max-h-40 overflow-y-auto" aria-label={t('history.versions')}>
+              {versions.map((version, index) => (
+                <li key={version._id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(version._id)}
+                    aria-pressed={version._id === selectedId}
+                    className={`w-full px-3 py-2 text-start text-sm ${
+                      version._id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{formatVersionDate(version)}</span>
+                      {index === 0 && (
+                        <span className="bg-green-50 text-green-700 text-xs rounded-full px-2 py-0.5">
+                          {t('history.current')}
+                        </span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-gray-500 truncate">
+                      {version.title || t('common.untitled')}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && compared && older && newer && (
+              <>
+                <div className="mt-4">
+                  <label htmlFor="history-compare" className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('history.compareWith')}
+                  </label>
+                  <select
+                    id="history-compare"
+                    value={compared._id}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {versions
+                      .filter((version) => version._id !== selected._id)
+                      .map((version) => (
+                        <option key={version._id} value={version._id}>
+                          {version === versions[0]
+                            ? t('history.currentOption', { date: formatVersionDate(version) })
+                            : formatVersionDate(version)}
+                        </option>
+                      ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {t('history.legend', { older: formatVersionDate(older), newer: formatVersionDate(newer) })}
+                  </p>
+                </div>
+
+                <div className="mt-4 space-y-3 text-sm">
+                  {older.title !== newer.title && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">{t('note.titleLabel')}</p>
+                      <DiffView before={older.title} after={newer.title} />
+                    </div>
+                  )}
+                  {older.tags.join(', ') !== newer.tags.join(', ') && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-500 mb-1">{t('note.tagsLabel')}</p>
+                      <DiffView before={older.tags.join(', ')} after={newer.tags.join(', ')} />
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">{t('note.contentLabel')}</p>
+                    <DiffView before={older.content} after={newer.content} className="max-h-72" />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('common.close')}
+          </button>
+          {selected && versions.length > 1 && (
+            <button
+              type="button"
+              onClick={handleRestore}
+              // Notes in the trash can't be edited, and the current text needs no restoring
+              disabled={isRestoring || note.deletedAt !== null || matchesNote(selected, note)}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {isRestoring ? t('history.restoring') : t('history.restore')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
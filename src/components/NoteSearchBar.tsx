@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import type { NoteDateField, NoteFilters } from '../utils/search';
+
+interface NoteSearchBarProps {
+  filters: NoteFilters;
+  onChange: (filters: NoteFilters) => void;
+  inputRef?: React.Ref<HTMLInputElement>;
+}
+
+export const NoteSearchBar: React.FC<NoteSearchBarProps> = ({ filters, onChange, inputRef }) => {
+  const { t } = useLocale();
+  const [showDateFilters, setShowDateFilters] = useState(Boolean(filters.from || filters.to));
+
+  const update = (changes: Partial<NoteFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const clearDates = () => {
+    update({ from: '', to: '' });
+    setShowDateFilters(false);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <div className="absolute inset-y-0 start-0 ps-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400" />
+          </div>
+          <input
+            ref={inputRef}
+            type="search"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className="block w-full ps-9 pe-3 py-2 border border-gray-300 rounded-md text-sm bg-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            placeholder={t('search.placeholder')}
+            aria-label={t('search.placeholder')}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowDateFilters(!showDateFilters)}
+          className={`p-2 rounded-md border ${
+            filters.from || filters.to
+              ? 'border-blue-500 text-blue-600'
+              : 'border-gray-300 text-gray-500 hover:text-gray-700'
+          }`}
+          title={t('search.filterByDate')}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </div>
+
+      {showDateFilters && (
+        <div className="mt-3 bg-white rounded-lg border p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <select
+              value={filters.dateField}
+              onChange={(e) => update({ dateField: e.target.value as NoteDateField })}
+              className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label={t('search.dateField')}
+            >
+              <option value="createdAt">{t('search.created')}</option>
+              <option value="updatedAt">{t('search.updated')}</option>
+            </select>
+            <button
+              type="button"
+              onClick={clearDates}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <X className="h-3 w-3" />
+              <span>{t('search.clearDates')}</span>
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <label className="flex-1 text-xs text-gray-600">
+              {t('search.from')}
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => update({ from: e.target.value })}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex-1 text-xs text-gray-600">
+              {t('search.to')}
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => update({ to: e.target.value })}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
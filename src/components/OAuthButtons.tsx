@@ -0,0 +1,30 @@
+import { identityProviders } from '../config/authProviders';
+import { useLocale } from '../contexts/LocaleContext';
+import { startOAuthSignIn } from '../utils/oauth';
+
+interface OAuthButtonsProps {
+  returnTo: string;
+  remember: boolean;
+}
+
+export const OAuthButtons: React.FC<OAuthButtonsProps> = ({ returnTo, remember }) => {
+  const { t } = useLocale();
+
+  if (identityProviders.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {identityProviders.map(({ id, name, icon: Icon }) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => startOAuthSignIn(id, { returnTo, remember })}
+          className="w-full flex justify-center items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
+        >
+          <Icon className="w-5 h-5 me-2" />
+          {t('auth.signInWith', { provider: name })}
+        </button>
+      ))}
+    </div>
+  );
+};
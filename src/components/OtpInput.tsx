@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import { useLocale } from '../contexts/LocaleContext';
+import { OTP_LENGTH } from '../utils/validation';
+
+interface OtpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once every box is filled
+  onComplete?: (code: string) => void;
+  length?: number;
+  disabled?: boolean;
+}
+
+// One box per digit. Digits are always filled left to right, so `value` never
+// has gaps; pasting or an autofilled one-time code spreads across the boxes.
+// The row stays left-to-right in RTL languages, as codes are read that way.
+export const OtpInput: React.FC<OtpInputProps> = ({ value, onChange, onComplete, length = OTP_LENGTH, disabled }) => {
+  const { t } = useLocale();
+  const inputsRef = useRef<(HTMLInputElement | null)[]>([]);
+
+  useEffect(() => {
+    inputsRef.current[0]?.focus();
+  }, []);
+
+  const focusBox = (index: number) => {
+    inputsRef.current[Math.max(0, Math.min(index, length - 1))]?.focus();
+  };
+
+  const update = (next: string) => {
+    const code = next.replace(/\D/g, '').slice(0, length);
+    onChange(code);
+    focusBox(code.length);
+    if (code.length === length && code !== value) onComplete?.(code);
+  };
+
+  const handleChange = (index: number, input: string) => {
+    const digits = input.replace(/\D/g, '');
+    if (!digits) return;
+
+    // A keystroke into a filled box arrives as old + new digit and replaces it;
+    // anything longer (an autofilled code) fills the boxes from here on
+    const existing = value[index] ?? '';
+    const isKeystroke = digits.length <= existing.length + 1 && digits.length < length;
+    const typed = isKeystroke ? digits.replace(existing, '').slice(-1) || existing : digits;
+    update(value.slice(0, index) + typed + value.slice(index + typed.length));
+  };
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      // On an empty box, delete the digit before it
+      const target = value[index] ? index : index - 1;
+      if (target < 0) return;
+      onChange(value.slice(0, target) + value.slice(target + 1));
+      focusBox(target);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      focusBox(index - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      focusBox(Math.min(index + 1, value.length));
+    }
+  };
+
+  const handlePaste = (index: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    const digits = e.clipboardData.getData('text').replace(/\D/g, '');
+    if (!digits) return;
+
+    // A whole code replaces everything, a fragment is inserted at the box
+    update(digits.length >= length ? digits : value.slice(0, index) + digits);
+  };
+
+  return (
+    <div className="flex justify-between gap-2" dir="ltr" role="group" aria-label={t('otp.group')}>
+      {Array.from({ length }, (_, index) => (
+        <input
+          key={index}
+          ref={(element) => {
+            inputsRef.current[index] = element;
+          }}
+          value={value[index] ?? ''}
+          onChange={(e) => handleChange(index, e.target.value)}
+          onKeyDown={(e) => handleKeyDown(index, e)}
+          onPaste={(e) => handlePaste(index, e)}
+          // Boxes past the first empty one send focus back to it
+          onFocus={(e) => (index > value.length ? focusBox(value.length) : e.target.select())}
+          type="text"
+          inputMode="numeric"
+          autoComplete={index === 0 ? 'one-time-code' : 'off'}
+          maxLength={index === 0 ? length : 1}
+          disabled={disabled}
+          aria-label={t('otp.digit', { index: index + 1 })}
+          className="w-12 h-12 border border-gray-300 rounded-md bg-white text-center text-xl font-semibold focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50"
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { OtpInput } from './OtpInput';
+import { useLocale } from '../contexts/LocaleContext';
+import { useOtpCooldown } from '../hooks/useOtpCooldown';
+import { getErrorMessage } from '../utils/apiError';
+import { formatNumber } from '../utils/i18n';
+import { OTP_LENGTH, otpRegex } from '../utils/validation';
+
+interface OtpVerificationProps {
+  // The address the code was sent to; also keys the resend cooldown
+  email: string;
+  // Check the code with the server; a rejection is shown as an error
+  onVerify: (code: string) => Promise<void>;
+  // Send a new code
+  onResend: () => Promise<unknown>;
+  onBack: () => void;
+  backLabel: string;
+}
+
+// Code entry, resend with a persisted cooldown and verification, shared by
+// sign in, sign up and email changes. The page sends the first code and
+// records it with recordOtpRequest before showing this.
+export const OtpVerification: React.FC<OtpVerificationProps> = ({ email, onVerify, onResend, onBack, backLabel }) => {
+  const { t } = useLocale();
+  const [otp, setOtp] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const { secondsLeft, isLimited, recordRequest } = useOtpCooldown(email);
+
+  const formatCountdown = (seconds: number) => {
+    if (seconds < 60) return t('otp.seconds', { seconds });
+    return `${formatNumber(Math.floor(seconds / 60))}:${formatNumber(seconds % 60, { minimumIntegerDigits: 2 })}`;
+  };
+
+  const verify = async (code: string) => {
+    if (isVerifying) return;
+
+    if (!code) {
+      toast.error(t('validation.otp.required'));
+      return;
+    }
+    if (!otpRegex.test(code)) {
+      toast.error(code.length !== OTP_LENGTH ? t('validation.otp.length', { length: OTP_LENGTH }) : t('validation.otp.numeric'));
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      await onVerify(code);
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('otp.toast.verifyFailed')));
+      setOtp('');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const resend = async () => {
+    if (isLimited) {
+      toast.error(t('otp.toast.tooManyRequests'));
+      return;
+    }
+    if (secondsLeft > 0) {
+      toast.error(t('otp.toast.wait', { count: secondsLeft }));
+      return;
+    }
+
+    setIsResending(true);
+    try {
+      await onResend();
+      recordRequest();
+      setOtp('');
+      toast.success(t('otp.toast.sentToEmail'));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('otp.toast.sendFailed')));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          {t('otp.label')}
+        </label>
+        <OtpInput length={OTP_LENGTH} value={otp} onChange={setOtp} onComplete={verify} disabled={isVerifying} />
+        <div className="mt-2 text-end">
+          <button
+            type="button"
+            onClick={resend}
+            disabled={isLimited || secondsLeft > 0 || isResending}
+            className="text-sm font-medium text-primary-600 hover:text-primary-500 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {isLimited
+              ? t('otp.limitReached', { time: formatCountdown(secondsLeft) })
+              : secondsLeft > 0
+                ? t('otp.resendIn', { time: formatCountdown(secondsLeft) })
+                : isResending ? t('otp.sending') : t('otp.resend')}
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <button
+          type="button"
+          onClick={() => verify(otp)}
+          disabled={isVerifying}
+          className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isVerifying ? t('otp.verifying') : t('otp.verify')}
+        </button>
+      </div>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-sm text-primary-600 hover:text-primary-500"
+        >
+          {backLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
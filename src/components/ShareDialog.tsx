@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Share2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { ShareLinkList } from './ShareLinkList';
+import { shares } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import { copyShareLink, describeExpiryOption, expiryFromNow, shareExpiryOptions } from '../utils/shareLinks';
+import type { Note } from '../types/note';
+import type { ShareLink } from '../types/share';
+
+interface ShareDialogProps {
+  note: Note;
+  onClose: () => void;
+}
+
+export const ShareDialog: React.FC<ShareDialogProps> = ({ note, onClose }) => {
+  const { t } = useLocale();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    shares
+      .list(note._id)
+      .then((result) => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(getErrorMessage(error, t('share.toast.loadFailed')));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [note._id, t]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await shares.create(note._id, expiryFromNow(expiryDays));
+      setLinks((prev) => [link, ...prev]);
+      await copyShareLink(link);
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('share.toast.createFailed')));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-title"
+        className="w-full max-w-sm rounded-lg bg-white p-6 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-2 mb-1">
+          <Share2 className="h-5 w-5 text-blue-600" />
+          <h2 id="share-title" className="text-lg font-semibold text-gray-900">
+            {t('share.title')}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('share.description')}
+        </p>
+
+        <div className="mt-4 flex items-end space-x-3">
+          <div className="flex-1">
+            <label htmlFor="share-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+              {t('share.expiryLabel')}
+            </label>
+            <select
+              id="share-expiry"
+              value={expiryDays ?? ''}
+              onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {shareExpiryOptions.map((days) => (
+                <option key={days ?? 'never'} value={days ?? ''}>
+                  {describeExpiryOption(days)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isCreating ? t('share.creating') : t('share.create')}
+          </button>
+        </div>
+
+        <div className="mt-4 border-t">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : links.length === 0 ? (
+            <p className="py-4 text-sm text-gray-500">{t('share.noLinks')}</p>
+          ) : (
+            <ShareLinkList
+              links={links}
+              onRevoked={(revoked) => setLinks((prev) => prev.filter((link) => link.token !== revoked.token))}
+            />
+          )}
+        </div>
+
+        <div className="mt-4 flex items-center justify-between">
+          <Link to="/shares" className="text-sm text-blue-600 hover:text-blue-700">
+            {t('share.allLinks')}
+          </Link>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('common.done')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { shares } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import { copyShareLink, describeExpiry, getShareUrl } from '../utils/shareLinks';
+import type { ShareLink } from '../types/share';
+
+interface ShareLinkListProps {
+  links: ShareLink[];
+  onRevoked: (link: ShareLink) => void;
+  // Name the note on each row when links for several notes are listed
+  showNoteTitle?: boolean;
+}
+
+export const ShareLinkList: React.FC<ShareLinkListProps> = ({ links, onRevoked, showNoteTitle = false }) => {
+  const { t } = useLocale();
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm(t('share.revokeConfirm'))) {
+      return;
+    }
+
+    setRevoking(link.token);
+    try {
+      await shares.revoke(link.token);
+      onRevoked(link);
+      toast.success(t('share.toast.revoked'));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('share.toast.revokeFailed')));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <ul className="divide-y">
+      {links.map((link) => (
+        <li key={link.token} className="py-3">
+          {showNoteTitle && (
+            <Link
+              to={`/notes/${link.noteId}`}
+              className="block text-sm font-medium text-gray-900 truncate hover:text-blue-600"
+            >
+              {link.noteTitle}
+            </Link>
+          )}
+          <div className="flex items-center space-x-2">
+            <span className="flex-1 min-w-0 text-xs text-gray-600 truncate">{getShareUrl(link)}</span>
+            <button
+              type="button"
+              onClick={() => copyShareLink(link)}
+              className="text-gray-400 hover:text-gray-700 p-1"
+              title={t('share.copy')}
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-1">
+            <span className="text-xs text-gray-500">{describeExpiry(link)}</span>
+            <button
+              type="button"
+              onClick={() => handleRevoke(link)}
+              disabled={revoking === link.token}
+              className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              {revoking === link.token ? t('share.revoking') : t('share.revoke')}
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
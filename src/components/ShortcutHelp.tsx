@@ -0,0 +1,66 @@
+import { Keyboard } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import { shortcutGroups } from '../utils/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="w-full max-w-sm rounded-lg bg-white p-6 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center space-x-2 mb-4">
+          <Keyboard className="h-5 w-5 text-blue-600" />
+          <h2 id="shortcut-help-title" className="text-lg font-semibold text-gray-900">
+            {t('shortcuts.title')}
+          </h2>
+        </div>
+
+        <div className="space-y-4">
+          {shortcutGroups.map((group) => (
+            <section key={group.title}>
+              <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">{t(group.title)}</h3>
+              <dl className="space-y-1.5">
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.description} className="flex items-center justify-between text-sm">
+                    <dt className="text-gray-700">{t(shortcut.description)}</dt>
+                    <dd className="flex space-x-1">
+                      {shortcut.keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.5rem] rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 text-center text-xs font-medium text-gray-700"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
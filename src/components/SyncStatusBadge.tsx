@@ -0,0 +1,26 @@
+import { CheckCircle2, Clock, AlertCircle } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import type { SyncStatus } from '../types/note';
+import type { MessageKey } from '../locales/en';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+}
+
+const statusStyles: Record<SyncStatus, { label: MessageKey; title: MessageKey; className: string; Icon: typeof Clock }> = {
+  pending: { label: 'sync.pending', title: 'sync.pendingTitle', className: 'text-amber-600', Icon: Clock },
+  synced: { label: 'sync.synced', title: 'sync.syncedTitle', className: 'text-green-600', Icon: CheckCircle2 },
+  failed: { label: 'sync.failed', title: 'sync.failedTitle', className: 'text-red-600', Icon: AlertCircle }
+};
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status }) => {
+  const { t } = useLocale();
+  const { label, title, className, Icon } = statusStyles[status];
+
+  return (
+    <span className={`inline-flex items-center space-x-1 text-xs ${className}`} title={t(title)}>
+      <Icon className="h-3 w-3" />
+      <span>{t(label)}</span>
+    </span>
+  );
+};
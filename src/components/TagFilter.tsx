@@ -0,0 +1,78 @@
+import { Link } from 'react-router-dom';
+import { useLocale } from '../contexts/LocaleContext';
+import type { TagMatchMode, TagSummary } from '../utils/tags';
+
+interface TagFilterProps {
+  tags: TagSummary[];
+  selected: string[];
+  mode: TagMatchMode;
+  onChange: (selected: string[], mode: TagMatchMode) => void;
+}
+
+export const TagFilter: React.FC<TagFilterProps> = ({ tags, selected, mode, onChange }) => {
+  const { t } = useLocale();
+
+  if (tags.length === 0) return null;
+
+  const toggleTag = (tag: string) => {
+    const next = selected.includes(tag)
+      ? selected.filter((item) => item !== tag)
+      : [...selected, tag];
+    onChange(next, mode);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2 text-xs text-gray-500">
+          <span>{t('note.tagsLabel')}</span>
+          {selected.length > 1 && (
+            <select
+              value={mode}
+              onChange={(e) => onChange(selected, e.target.value as TagMatchMode)}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label={t('tags.matchMode')}
+            >
+              <option value="any">{t('tags.matchAny')}</option>
+              <option value="all">{t('tags.matchAll')}</option>
+            </select>
+          )}
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([], mode)}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              {t('tags.clear')}
+            </button>
+          )}
+          <Link to="/tags" className="text-blue-600 hover:text-blue-700">
+            {t('tags.manage')}
+          </Link>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {tags.map(({ tag, count }) => {
+          const isSelected = selected.includes(tag);
+          return (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              aria-pressed={isSelected}
+              className={`text-xs rounded-full px-2.5 py-1 border ${
+                isSelected
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+              }`}
+            >
+              {tag} <span className={isSelected ? 'text-blue-100' : 'text-gray-400'}>{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import { MAX_TAGS_PER_NOTE, normalizeTag } from '../utils/tags';
+
+interface TagInputProps {
+  id: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered as autocomplete suggestions
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const TagInput: React.FC<TagInputProps> = ({ id, value, onChange, suggestions }) => {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = normalizeTag(draft);
+  const matches = query
+    ? suggestions
+        .filter((tag) => !value.includes(tag) && tag.includes(query))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isFull = value.length >= MAX_TAGS_PER_NOTE;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    setActiveIndex(0);
+    if (!tag || value.includes(tag) || isFull) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      addTag(matches[activeIndex] ?? draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Escape') {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border border-gray-300 rounded-md focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+        {value.map((tag) => (
+          <span key={tag} className="inline-flex items-center bg-blue-50 text-blue-700 text-xs rounded-full ps-2 pe-1 py-0.5">
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ms-1 text-blue-400 hover:text-blue-700"
+              aria-label={t('tags.remove', { tag })}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) addTag(draft);
+          }}
+          disabled={isFull}
+          className="flex-1 min-w-[6rem] text-sm border-0 p-0.5 focus:outline-none focus:ring-0 disabled:bg-transparent"
+          placeholder={isFull ? t('tags.limit', { count: MAX_TAGS_PER_NOTE }) : value.length ? '' : t('tags.add')}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={isFocused && matches.length > 0}
+          aria-controls={`${id}-suggestions`}
+        />
+      </div>
+
+      {isFocused && matches.length > 0 && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg py-1 text-sm"
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`px-3 py-1 cursor-pointer ${index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+            >
+              {tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { Monitor, Moon, Sun } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { themePreferences } from '../config/themes';
+import type { ThemePreference } from '../config/themes';
+
+interface ThemeToggleProps {
+  className?: string;
+}
+
+const icons: Record<ThemePreference, React.FC<{ className?: string }>> = {
+  light: Sun,
+  dark: Moon,
+  system: Monitor
+};
+
+// Cycles light -> dark -> system; Settings offers the full picker
+export const ThemeToggle: React.FC<ThemeToggleProps> = ({ className = '' }) => {
+  const { theme, setTheme } = useTheme();
+  const { t } = useLocale();
+
+  const index = themePreferences.findIndex((option) => option.id === theme);
+  const current = themePreferences[index];
+  const next = themePreferences[(index + 1) % themePreferences.length];
+  const Icon = icons[theme];
+  const label = t('theme.toggle', { current: t(current.label), next: t(next.label) });
+
+  return (
+    <button
+      type="button"
+      onClick={() => setTheme(next.id)}
+      className={`p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 ${className}`}
+      title={label}
+      aria-label={label}
+    >
+      <Icon className="h-5 w-5" />
+    </button>
+  );
+};
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { useVirtualList } from '../hooks/useVirtualList';
+import type { Note } from '../types/note';
+
+interface VirtualNoteListProps {
+  notes: Note[];
+  renderNote: (note: Note) => React.ReactNode;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  // Row to keep in view, e.g. the one picked with the keyboard
+  activeIndex?: number;
+}
+
+// Rough height of a card before it has been measured
+const ESTIMATED_CARD_HEIGHT = 140;
+
+export const VirtualNoteList: React.FC<VirtualNoteListProps> = ({
+  notes,
+  renderNote,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  activeIndex = -1
+}) => {
+  const keys = notes.map((note) => note._id);
+  const { containerRef, totalSize, virtualItems, measureRef, scrollToIndex } = useVirtualList({
+    keys,
+    estimateSize: ESTIMATED_CARD_HEIGHT
+  });
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const scrollToIndexRef = useRef(scrollToIndex);
+
+  useEffect(() => {
+    scrollToIndexRef.current = scrollToIndex;
+  }, [scrollToIndex]);
+
+  // Only when the selection moves, not every time the list re-measures
+  useEffect(() => {
+    if (activeIndex >= 0) scrollToIndexRef.current(activeIndex);
+  }, [activeIndex]);
+
+  // Infinite scroll: ask for the next page shortly before the end comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadMore();
+      },
+      { rootMargin: '600px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // Re-observing after each page fires again if the end is still on screen
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
+  return (
+    <>
+      <div ref={containerRef} className="relative" style={{ height: totalSize }}>
+        {virtualItems.map(({ key, index, start }) => (
+          <div
+            key={key}
+            ref={measureRef(key)}
+            className="absolute start-0 end-0 pb-3"
+            style={{ transform: `translateY(${start}px)` }}
+          >
+            {renderNote(notes[index])}
+          </div>
+        ))}
+      </div>
+      <div ref={sentinelRef} />
+      {isLoadingMore && (
+        <div className="flex justify-center items-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,31 @@
+import { GitHubIcon, GoogleIcon, MicrosoftIcon } from '../components/ProviderIcons';
+
+// Identity providers the API can sign users in with. Adding one here (plus its
+// backend route at /auth/<id>) is all the sign-in page needs.
+
+export interface IdentityProvider {
+  id: string;
+  name: string;
+  icon: React.FC<{ className?: string }>;
+}
+
+const allProviders: IdentityProvider[] = [
+  { id: 'google', name: 'Google', icon: GoogleIcon },
+  { id: 'github', name: 'GitHub', icon: GitHubIcon },
+  { id: 'microsoft', name: 'Microsoft', icon: MicrosoftIcon }
+];
+
+// Comma-separated ids from VITE_AUTH_PROVIDERS choose which providers are
+// offered and in what order; Google alone when unset
+const enabledIds: string[] = String(import.meta.env.VITE_AUTH_PROVIDERS ?? 'google')
+  .split(',')
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+export const identityProviders: IdentityProvider[] = enabledIds.flatMap((id) => {
+  const provider = allProviders.find((p) => p.id === id);
+  return provider ? [provider] : [];
+});
+
+export const findIdentityProvider = (id: string): IdentityProvider | undefined =>
+  allProviders.find((provider) => provider.id === id);
@@ -0,0 +1,20 @@
+// Languages the UI is translated into. Adding one means a catalog in
+// src/locales plus an entry here.
+
+export type Locale = 'en' | 'ar';
+
+export interface LocaleOption {
+  id: Locale;
+  // Shown in the language's own script
+  label: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const locales: LocaleOption[] = [
+  { id: 'en', label: 'English', dir: 'ltr' },
+  { id: 'ar', label: 'العربية', dir: 'rtl' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_STORAGE_KEY = 'locale';
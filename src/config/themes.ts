@@ -0,0 +1,32 @@
+import type { MessageKey } from '../locales/en';
+
+// Light, dark or follow the operating system
+export type ThemePreference = 'light' | 'dark' | 'system';
+export type ResolvedTheme = 'light' | 'dark';
+
+export const themePreferences: { id: ThemePreference; label: MessageKey }[] = [
+  { id: 'light', label: 'theme.light' },
+  { id: 'dark', label: 'theme.dark' },
+  { id: 'system', label: 'theme.system' }
+];
+
+// Accent palettes are defined in tailwind.themes.js; listing one here is all
+// the theme picker needs to offer it.
+export interface AccentTheme {
+  id: string;
+  label: MessageKey;
+}
+
+export const accentThemes: AccentTheme[] = [
+  { id: 'blue', label: 'theme.accent.blue' },
+  { id: 'violet', label: 'theme.accent.violet' },
+  { id: 'emerald', label: 'theme.accent.emerald' },
+  { id: 'rose', label: 'theme.accent.rose' }
+];
+
+export const DEFAULT_ACCENT = 'blue';
+
+// Also read by the inline script in index.html, which applies the theme before
+// the app loads
+export const THEME_STORAGE_KEY = 'theme';
+export const ACCENT_STORAGE_KEY = 'accent';
@@ -1,20 +1,42 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import { api } from '../utils/api';
-
-interface User {
-  id: string;
-  email: string;
-  name: string;
-  dateOfBirth?: string;
-  isEmailVerified: boolean;
+import toast from 'react-hot-toast';
+import type { User } from '../types/user';
+import { auth } from '../utils/apiClient';
+import { toApiError } from '../utils/apiError';
+import { t } from '../utils/i18n';
+import {
+  cacheUser,
+  clearSession,
+  expireSession,
+  getAccessToken,
+  getCachedUser,
+  hasSessionExceededMaxAge,
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+  isRememberedSession,
+  onSessionExpired,
+  setTokens,
+  startSession
+} from '../utils/authSession';
+import { broadcastToTabs, subscribeToTabs } from '../utils/tabSync';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import { IdleWarningDialog } from '../components/IdleWarningDialog';
+
+
+interface LoginOptions {
+  refreshToken?: string;
+  // "Keep me logged in"; defaults to true
+  remember?: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, options?: LoginOptions) => void;
   logout: () => void;
+  // Replace the signed-in user's details after editing their profile
+  updateUser: (user: User) => void;
   loading: boolean;
 }
 
@@ -34,49 +56,138 @@ interface AuthProviderProps {
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
+  const [token, setToken] = useState<string | null>(getAccessToken());
   const [loading, setLoading] = useState(true);
+  const [isRemembered, setIsRemembered] = useState(isRememberedSession);
 
+  // Validate the stored session once on startup; later sign-ins (here or in
+  // another tab) already come with the user
   useEffect(() => {
     const checkAuth = async () => {
-      if (token) {
+      if (hasSessionExceededMaxAge()) {
+        expireSession();
+      } else if (getAccessToken()) {
         try {
-          const response = await api.get('/auth/me');
-          setUser(response.data.user);
+          const currentUser = await auth.me();
+          setUser(currentUser);
+          cacheUser(currentUser);
         } catch (error) {
-          localStorage.removeItem('token');
-          setToken(null);
+          // Offline: keep the session alive with the last known user so cached notes stay usable
+          const cachedUser = getCachedUser();
+          if (toApiError(error).code === 'NETWORK_ERROR' && cachedUser) {
+            setUser(cachedUser);
+          } else {
+            clearSession();
+            setToken(null);
+          }
         }
       }
       setLoading(false);
     };
 
     checkAuth();
-  }, [token]);
+  }, []);
+
+  // The API client gave up refreshing the access token. Dropping the user lets
+  // ProtectedRoute send them to sign in, remembering the page they were on.
+  useEffect(() => {
+    return onSessionExpired(() => {
+      if (user) broadcastToTabs({ type: 'auth:logout', userId: user.id });
+      setToken(null);
+      setUser(null);
+      toast.error(t('apiError.UNAUTHORIZED'), { id: 'session-expired' });
+    });
+  }, [user]);
+
+  // Follow sign-ins, sign-outs and token refreshes from other tabs
+  useEffect(() => {
+    return subscribeToTabs((message) => {
+      switch (message.type) {
+        case 'auth:login':
+          startSession(message);
+          setIsRemembered(message.remember);
+          setToken(message.accessToken);
+          setUser(message.user);
+          setLoading(false);
+          break;
+        case 'auth:logout':
+          if (user?.id !== message.userId) return;
+          clearSession();
+          setToken(null);
+          setUser(null);
+          toast(t('auth.toast.signedOutInOtherTab'), { id: 'tab-sign-out' });
+          break;
+        case 'auth:tokens':
+          if (user?.id !== message.userId) return;
+          setTokens(message.accessToken, message.refreshToken);
+          setToken(message.accessToken);
+          break;
+        case 'auth:user':
+          if (user?.id !== message.user.id) return;
+          cacheUser(message.user);
+          setUser(message.user);
+          break;
+      }
+    });
+  }, [user]);
+
+  // Remembered sessions still end once they reach their maximum lifetime
+  useEffect(() => {
+    if (!user || !isRemembered) return;
+    const timer = setInterval(() => {
+      if (hasSessionExceededMaxAge()) expireSession();
+    }, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [user, isRemembered]);
 
-  const login = (newToken: string, newUser: User) => {
-    localStorage.setItem('token', newToken);
+  const login = (newToken: string, newUser: User, { refreshToken, remember = true }: LoginOptions = {}) => {
+    startSession({ accessToken: newToken, refreshToken, user: newUser, remember });
+    broadcastToTabs({ type: 'auth:login', accessToken: newToken, refreshToken, user: newUser, remember });
+    setIsRemembered(remember);
     setToken(newToken);
     setUser(newUser);
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
+  const logout = useCallback(() => {
+    if (user) broadcastToTabs({ type: 'auth:logout', userId: user.id });
+    clearSession();
     setToken(null);
     setUser(null);
+  }, [user]);
+
+  const updateUser = (updatedUser: User) => {
+    cacheUser(updatedUser);
+    setUser(updatedUser);
+    broadcastToTabs({ type: 'auth:user', user: updatedUser });
   };
 
+  const signOutIdle = useCallback(() => {
+    logout();
+    toast(t('auth.toast.signedOutIdle'), { id: 'idle-sign-out' });
+  }, [logout]);
+
+  const idle = useIdleTimer({
+    enabled: Boolean(user) && !isRemembered && IDLE_TIMEOUT_MS > 0,
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: IDLE_WARNING_MS,
+    onIdle: signOutIdle
+  });
+
   const value = {
     user,
     token,
     login,
     logout,
+    updateUser,
     loading
   };
 
   return (
     <AuthContext.Provider value={value}>
       {children}
+      {idle.secondsLeft !== null && (
+        <IdleWarningDialog secondsLeft={idle.secondsLeft} onStay={idle.stayActive} onSignOut={logout} />
+      )}
     </AuthContext.Provider>
   );
 };
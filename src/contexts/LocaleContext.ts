@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import type { Locale } from '../config/locales';
+import type { Translate } from '../utils/i18n';
+
+export interface LocaleContextType {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+export const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+};
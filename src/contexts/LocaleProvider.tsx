@@ -0,0 +1,51 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { LocaleContext } from './LocaleContext';
+import { LOCALE_STORAGE_KEY } from '../config/locales';
+import type { Locale } from '../config/locales';
+import { detectLocale, getLocale, getLocaleOption, setCurrentLocale, translate } from '../utils/i18n';
+import type { Translate } from '../utils/i18n';
+
+interface LocaleProviderProps {
+  children: React.ReactNode;
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const { dir } = getLocaleOption(locale);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.lang = locale;
+    root.dir = dir;
+  }, [locale, dir]);
+
+  // Keep other tabs in step when the language changes there
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== LOCALE_STORAGE_KEY) return;
+      const next = detectLocale();
+      setCurrentLocale(next);
+      setLocaleState(next);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const setLocale = (next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    setCurrentLocale(next);
+    setLocaleState(next);
+  };
+
+  // A new function per language, so memos and effects keyed on `t` re-run
+  // when it changes
+  const t = useCallback<Translate>((key, params) => translate(locale, key, params), [locale]);
+
+  const value = { locale, dir, setLocale, t };
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
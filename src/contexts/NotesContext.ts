@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react';
+import type { Attachment, Note, NoteChanges, NoteInput, SyncStatus } from '../types/note';
+import type { NoteView } from '../utils/notes';
+
+export interface NotesContextType {
+  notes: Note[];
+  isLoading: boolean;
+  isOnline: boolean;
+  isSyncing: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreNotes: () => Promise<void>;
+  fetchNote: (noteId: string) => Promise<Note>;
+  fetchUnloadedNotes: (view?: NoteView) => Promise<Note[]>;
+  createNote: (input: NoteInput) => Promise<Note>;
+  createNoteOnServer: (input: NoteInput & NoteChanges) => Promise<Note>;
+  updateNote: (noteId: string, changes: NoteChanges) => Promise<Note | undefined>;
+  deleteNote: (noteId: string, unloaded?: Note) => Promise<void>;
+  addAttachment: (noteId: string, attachment: Attachment, updatedAt: string) => Promise<void>;
+  removeAttachment: (noteId: string, attachmentId: string, updatedAt: string) => Promise<void>;
+  renameTag: (from: string, to: string) => Promise<number>;
+  refreshNotes: () => Promise<void>;
+  retrySync: (noteId: string) => Promise<void>;
+  discardChanges: (noteId: string) => Promise<void>;
+  getSyncStatus: (noteId: string) => SyncStatus;
+  resolveNoteId: (noteId: string) => string;
+  // Sign out and clear this device's copy of the notes; false if the user cancelled
+  signOut: () => Promise<boolean>;
+}
+
+export const NotesContext = createContext<NotesContextType | undefined>(undefined);
+
+export const useNotes = () => {
+  const context = useContext(NotesContext);
+  if (context === undefined) {
+    throw new Error('useNotes must be used within a NotesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,759 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import toast from 'react-hot-toast';
+import { notes as notesApi } from '../utils/apiClient';
+import { ApiError, getErrorMessage, toApiError } from '../utils/apiError';
+import type { ApiErrorCode } from '../utils/apiError';
+import { t } from '../utils/i18n';
+import type { MessageKey } from '../locales/en';
+import { useAuth } from './AuthContext';
+import { NotesContext } from './NotesContext';
+import type { Attachment, Note, NoteChanges, NoteInput, SyncStatus } from '../types/note';
+import {
+  addOutboxEntry,
+  clearOfflineStore,
+  createLocalId,
+  getCachedNotes,
+  getOutbox,
+  isLocalId,
+  putCachedNote,
+  putOutboxEntry,
+  removeCachedNote,
+  removeOutboxEntries,
+  replaceCachedNotes,
+  withOutboxLock
+} from '../utils/offlineStore';
+import type { OutboxEntry } from '../utils/offlineStore';
+import { replaceTag } from '../utils/tags';
+import { isPurged, normalizeNote } from '../utils/notes';
+import type { NoteView } from '../utils/notes';
+import { moveNoteDraft, rebaseNoteDraft } from '../utils/drafts';
+import { broadcastToTabs, subscribeToTabs } from '../utils/tabSync';
+
+// The cache belongs to whoever filled it; another account signing in starts fresh
+const CACHE_OWNER_KEY = 'notesCacheOwner';
+
+// Notes are fetched newest-first in cursor-paginated pages
+const PAGE_SIZE = 30;
+const MAX_REFRESH_SIZE = 300;
+// Larger pages for going through every note at once
+const UNLOADED_PAGE_SIZE = 100;
+
+const sortNotes = (notes: Note[]) => {
+  return [...notes].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Overlay changes that have not reached the server yet on top of the server's copy
+const mergeWithOutbox = (serverNotes: Note[], localNotes: Note[], outbox: OutboxEntry[]): Note[] => {
+  const deletedIds = new Set(outbox.filter((e) => e.operation === 'delete').map((e) => e.noteId));
+  const editedIds = new Set(outbox.filter((e) => e.operation !== 'delete').map((e) => e.noteId));
+  const localById = new Map(localNotes.map((note) => [note._id, note]));
+
+  const merged = serverNotes
+    .filter((note) => !deletedIds.has(note._id))
+    .map((note) => (editedIds.has(note._id) && localById.get(note._id)) || note);
+  const unsynced = localNotes.filter((note) => isLocalId(note._id) && editedIds.has(note._id));
+
+  return sortNotes([...unsynced, ...merged]);
+};
+
+// Notes are replaced rather than mutated and every change bumps `updatedAt` or
+// the id, so that is enough to tell which ones another tab needs
+const diffNotes = (previous: Note[], next: Note[]) => {
+  const previousById = new Map(previous.map((note) => [note._id, note]));
+  const nextIds = new Set(next.map((note) => note._id));
+  return {
+    upserted: next.filter((note) => {
+      const before = previousById.get(note._id);
+      return !before || (before !== note && before.updatedAt !== note.updatedAt);
+    }),
+    removed: previous.filter((note) => !nextIds.has(note._id)).map((note) => note._id)
+  };
+};
+
+// The server refused the change itself, so retrying it won't help
+const isRejection = (code: ApiErrorCode) =>
+  code === 'BAD_REQUEST' ||
+  code === 'VALIDATION_ERROR' ||
+  code === 'FORBIDDEN' ||
+  code === 'NOT_FOUND' ||
+  code === 'CONFLICT';
+
+const rollbackMessages: Record<OutboxEntry['operation'], MessageKey> = {
+  create: 'notes.toast.createRolledBack',
+  update: 'notes.toast.updateRolledBack',
+  delete: 'notes.toast.deleteRolledBack'
+};
+
+interface CommitOptions {
+  // False when applying a change that came from another tab
+  broadcast?: boolean;
+  // Local ids replaced by server ids in this commit
+  idMap?: Record<string, string>;
+}
+
+interface NotesProviderProps {
+  children: ReactNode;
+}
+
+export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
+  const { user, loading: authLoading, logout } = useAuth();
+  const userId = user?.id;
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Async flows read and write the latest list through this ref to avoid stale closures
+  const notesRef = useRef<Note[]>([]);
+  const syncingRef = useRef(false);
+  const inFlightRef = useRef<number | undefined>(undefined);
+  const idMapRef = useRef<Record<string, string>>({});
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const userIdRef = useRef(userId);
+
+  useEffect(() => {
+    userIdRef.current = userId;
+  }, [userId]);
+
+  // Every change to the list goes through here and is mirrored to other tabs
+  const commitNotes = useCallback((next: Note[], { broadcast = true, idMap = {} }: CommitOptions = {}) => {
+    const previous = notesRef.current;
+    notesRef.current = next;
+    setNotes(next);
+
+    const currentUserId = userIdRef.current;
+    if (!broadcast || !currentUserId) return;
+    const { upserted, removed } = diffNotes(previous, next);
+    if (upserted.length > 0 || removed.length > 0) {
+      broadcastToTabs({ type: 'notes:changed', userId: currentUserId, upserted, removed, idMap });
+    }
+  }, []);
+
+  const reloadOutbox = useCallback(async () => {
+    setOutbox(await getOutbox());
+    if (userIdRef.current) broadcastToTabs({ type: 'notes:outbox', userId: userIdRef.current });
+  }, []);
+
+  // Reload from the top. Asks for as many notes as are already loaded so a
+  // refresh doesn't collapse a list the user has scrolled far into.
+  const fetchNotes = useCallback(async () => {
+    try {
+      const limit = Math.min(Math.max(PAGE_SIZE, notesRef.current.length), MAX_REFRESH_SIZE);
+      const page = await notesApi.list({ limit });
+      const entries = await getOutbox();
+      const merged = mergeWithOutbox(page.notes, notesRef.current, entries);
+      cursorRef.current = page.nextCursor;
+      setHasMore(Boolean(page.nextCursor));
+      commitNotes(merged);
+      setOutbox(entries);
+      await replaceCachedNotes(merged);
+    } catch (error) {
+      // With a warm cache the offline banner is enough; only complain when there is nothing to show
+      if (toApiError(error).code !== 'NETWORK_ERROR' || notesRef.current.length === 0) {
+        toast.error(getErrorMessage(error, t('notes.toast.fetchFailed')));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [commitNotes]);
+
+  const loadMoreNotes = useCallback(async () => {
+    if (!cursorRef.current || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await notesApi.list({ cursor: cursorRef.current, limit: PAGE_SIZE });
+      const entries = await getOutbox();
+      const deletedIds = new Set(entries.filter((e) => e.operation === 'delete').map((e) => e.noteId));
+      const loadedIds = new Set(notesRef.current.map((note) => note._id));
+      const newNotes = page.notes.filter((note) => !loadedIds.has(note._id) && !deletedIds.has(note._id));
+
+      cursorRef.current = page.nextCursor;
+      setHasMore(Boolean(page.nextCursor));
+      commitNotes(sortNotes([...notesRef.current, ...newNotes]));
+      await Promise.all(newNotes.map(putCachedNote));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('notes.toast.loadMoreFailed')));
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [commitNotes]);
+
+  // A note past the loaded pages, e.g. opened from a link or a search hit. It is
+  // added to the list so it can be edited like any other.
+  const fetchNote = useCallback(async (noteId: string) => {
+    const note = await notesApi.get(noteId);
+    // Deleted here but not yet on the server
+    const entries = await getOutbox().catch(() => []);
+    if (entries.some((e) => e.operation === 'delete' && e.noteId === noteId)) {
+      throw new ApiError({ code: 'NOT_FOUND', status: 404 });
+    }
+
+    if (!notesRef.current.some((n) => n._id === note._id)) {
+      commitNotes(sortNotes([note, ...notesRef.current]));
+      await putCachedNote(note).catch(() => undefined);
+    }
+    return note;
+  }, [commitNotes]);
+
+  // Notes the server has that aren't loaded here, fetched page by page, e.g. to
+  // act on every note rather than only the loaded ones. Notes deleted here but
+  // not yet on the server are left out.
+  const fetchUnloadedNotes = useCallback(async (view?: NoteView) => {
+    const entries = await getOutbox().catch(() => []);
+    const skip = new Set([
+      ...notesRef.current.map((note) => note._id),
+      ...entries.filter((e) => e.operation === 'delete').map((e) => e.noteId)
+    ]);
+
+    const found = new Map<string, Note>();
+    let cursor: string | null = null;
+    do {
+      const page = await notesApi.list({ view, limit: UNLOADED_PAGE_SIZE, ...(cursor ? { cursor } : {}) });
+      page.notes.forEach((note) => {
+        if (!skip.has(note._id)) found.set(note._id, note);
+      });
+      cursor = page.nextCursor;
+    } while (cursor);
+    return [...found.values()];
+  }, []);
+
+  const replayEntry = useCallback(async (entry: OutboxEntry) => {
+    switch (entry.operation) {
+      case 'create': {
+        const before = notesRef.current.find((note) => note._id === entry.noteId);
+        // Create entries always carry the full note; later edits are folded into them
+        const saved = await notesApi.create(entry.payload as NoteInput);
+        idMapRef.current[entry.noteId] = saved._id;
+
+        // Point any changes queued while the create was in flight at the real id
+        const followUps = (await getOutbox()).filter((e) => e.id !== entry.id && e.noteId === entry.noteId);
+        await Promise.all(followUps.map((e) => putOutboxEntry({ ...e, noteId: saved._id, baseUpdatedAt: saved.updatedAt })));
+        // Also keep edits made here while the request was out that haven't been queued yet
+        const hasPendingEdit = followUps.some((e) => e.operation === 'update') ||
+          notesRef.current.find((note) => note._id === entry.noteId) !== before;
+
+        const next = notesRef.current.map((note) =>
+          note._id === entry.noteId
+            ? hasPendingEdit ? { ...note, _id: saved._id, createdAt: saved.createdAt, updatedAt: saved.updatedAt } : saved
+            : note
+        );
+        commitNotes(next, { idMap: { [entry.noteId]: saved._id } });
+        if (userIdRef.current) moveNoteDraft(userIdRef.current, entry.noteId, saved._id, saved.updatedAt);
+        await removeCachedNote(entry.noteId);
+        const stored = next.find((note) => note._id === saved._id);
+        if (stored) await putCachedNote(stored);
+        break;
+      }
+
+      case 'update': {
+        const before = notesRef.current.find((note) => note._id === entry.noteId);
+        const saved = await notesApi.update(entry.noteId, entry.payload ?? {});
+        const hasNewerEdit = (await getOutbox()).some(
+          (e) => e.id !== entry.id && e.noteId === entry.noteId && e.operation === 'update'
+        );
+        // Only take the server's copy if nothing changed here in the meantime;
+        // otherwise the newer change reconciles when it replays
+        const current = notesRef.current.find((note) => note._id === saved._id);
+        if (!hasNewerEdit && current && current === before) {
+          commitNotes(notesRef.current.map((note) => (note._id === saved._id ? saved : note)));
+          await putCachedNote(saved);
+        }
+        break;
+      }
+
+      case 'delete': {
+        let serverNote: Note;
+        try {
+          serverNote = await notesApi.get(entry.noteId);
+        } catch (error) {
+          if (toApiError(error).code === 'NOT_FOUND') return;
+          throw error;
+        }
+
+        // Someone edited the note after it was deleted here; keep their version
+        if (entry.baseUpdatedAt && serverNote.updatedAt !== entry.baseUpdatedAt) {
+          commitNotes(sortNotes([serverNote, ...notesRef.current.filter((note) => note._id !== serverNote._id)]));
+          await putCachedNote(serverNote);
+          toast(t('notes.toast.keptAfterDelete', { title: serverNote.title }), { icon: '⚠️' });
+          return;
+        }
+
+        try {
+          await notesApi.remove(entry.noteId);
+        } catch (error) {
+          if (toApiError(error).code !== 'NOT_FOUND') throw error;
+        }
+        break;
+      }
+    }
+  }, [commitNotes]);
+
+  // Undo an optimistic change the server refused: drop everything queued for
+  // the note and go back to the server's copy (or none, for a refused create).
+  // Call with the outbox lock held.
+  const rollBack = useCallback(async (entry: OutboxEntry) => {
+    let serverNote: Note | null = null;
+    if (entry.operation !== 'create') {
+      try {
+        serverNote = await notesApi.get(entry.noteId);
+      } catch (error) {
+        if (toApiError(error).code !== 'NOT_FOUND') throw error;
+      }
+    }
+
+    const queued = (await getOutbox()).filter((e) => e.noteId === entry.noteId);
+    await removeOutboxEntries(queued.flatMap((e) => (e.id === undefined ? [] : [e.id])));
+
+    const local = notesRef.current.find((note) => note._id === entry.noteId);
+    const rest = notesRef.current.filter((note) => note._id !== entry.noteId);
+    commitNotes(serverNote ? sortNotes([serverNote, ...rest]) : rest);
+    if (serverNote) await putCachedNote(serverNote);
+    else await removeCachedNote(entry.noteId);
+
+    return (local ?? serverNote)?.title ?? (entry.payload?.title || t('common.untitled'));
+  }, [commitNotes]);
+
+  const syncOutbox = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    // Replays one entry while holding the outbox lock; resolves true when there
+    // is nothing more to do for now
+    const replayNext = () => withOutboxLock(async () => {
+      const entries = await getOutbox();
+      // Later changes to a note wait behind its failed ones so they replay in order
+      const blocked = new Set(entries.filter((e) => e.status === 'failed').map((e) => e.noteId));
+      const entry = entries.find((e) => e.status === 'pending' && !blocked.has(e.noteId));
+      if (!entry || entry.id === undefined) return true;
+
+      inFlightRef.current = entry.id;
+      try {
+        await replayEntry(entry);
+        await removeOutboxEntries([entry.id]);
+      } catch (error) {
+        // Still offline or signed out: leave the entry queued for the next attempt
+        const { code } = toApiError(error);
+        if (code === 'NETWORK_ERROR' || code === 'UNAUTHORIZED') return true;
+
+        const message = getErrorMessage(error, t('notes.toast.syncFailed'));
+        if (isRejection(code)) {
+          try {
+            const title = await rollBack(entry);
+            toast.error(t(rollbackMessages[entry.operation], { title, reason: message }), { duration: 6000 });
+            return false;
+          } catch {
+            // Couldn't reach the server for its copy; fall back to Retry / Discard
+          }
+        }
+
+        // Server trouble may pass, so keep the change and let the user retry it
+        await putOutboxEntry({ ...entry, status: 'failed', error: message });
+        toast.error(message);
+      } finally {
+        inFlightRef.current = undefined;
+      }
+      return false;
+    });
+
+    try {
+      while (!(await replayNext())) {
+        // Keep going until the outbox is drained or blocked
+      }
+    } catch {
+      // IndexedDB is unavailable (e.g. some private browsing modes); nothing to replay
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await reloadOutbox().catch(() => undefined);
+    }
+  }, [replayEntry, rollBack, reloadOutbox]);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!userId) {
+      commitNotes([], { broadcast: false });
+      setOutbox([]);
+      setHasMore(false);
+      cursorRef.current = null;
+      setIsLoading(true);
+      return;
+    }
+
+    let cancelled = false;
+    const loadNotes = async () => {
+      setIsLoading(true);
+      try {
+        if (localStorage.getItem(CACHE_OWNER_KEY) !== userId) {
+          await clearOfflineStore();
+          localStorage.setItem(CACHE_OWNER_KEY, userId);
+        }
+
+        const [stored, entries] = await Promise.all([getCachedNotes(), getOutbox()]);
+        // The server has already purged notes that spent too long in the trash
+        const normalized = stored.map(normalizeNote);
+        await Promise.all(normalized.filter(isPurged).map((note) => removeCachedNote(note._id)));
+        const cached = normalized.filter((note) => !isPurged(note));
+        if (cancelled) return;
+        commitNotes(sortNotes(cached), { broadcast: false });
+        setOutbox(entries);
+        if (cached.length > 0) setIsLoading(false);
+      } catch {
+        // Without IndexedDB the app still works online, just without a cache
+      }
+
+      await syncOutbox();
+      if (!cancelled) await fetchNotes();
+    };
+
+    loadNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading, commitNotes, syncOutbox, fetchNotes]);
+
+  useEffect(() => {
+    const handleOnline = async () => {
+      setIsOnline(true);
+      if (!userId) return;
+      await syncOutbox();
+      await fetchNotes();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [userId, syncOutbox, fetchNotes]);
+
+  // Apply changes made in another tab. That tab already wrote them to the shared
+  // IndexedDB cache, so only this tab's in-memory state needs updating.
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToTabs((message) => {
+      if (!('userId' in message) || message.userId !== userId) return;
+
+      if (message.type === 'notes:changed') {
+        Object.assign(idMapRef.current, message.idMap);
+
+        const current = notesRef.current;
+        const currentIds = new Set(current.map((note) => note._id));
+        const oldestLoaded = current[current.length - 1]?.createdAt;
+        // Notes past what this tab has paged in arrive with the page that holds them
+        const upserted = message.upserted.filter((note) =>
+          currentIds.has(note._id) || !cursorRef.current || !oldestLoaded || note.createdAt >= oldestLoaded
+        );
+        const replaced = new Set([...message.removed, ...upserted.map((note) => note._id)]);
+        commitNotes(
+          sortNotes([...upserted, ...current.filter((note) => !replaced.has(note._id))]),
+          { broadcast: false }
+        );
+      } else if (message.type === 'notes:outbox') {
+        getOutbox().then(setOutbox).catch(() => undefined);
+      }
+    });
+  }, [userId, commitNotes]);
+
+  const queue = async (entry: Pick<OutboxEntry, 'operation' | 'noteId' | 'payload' | 'baseUpdatedAt'>) => {
+    await addOutboxEntry({ ...entry, status: 'pending', queuedAt: new Date().toISOString() });
+  };
+
+  const createNote = async (input: NoteInput) => {
+    const now = new Date().toISOString();
+    const note: Note = {
+      _id: createLocalId(),
+      ...input,
+      isPinned: false,
+      isArchived: false,
+      deletedAt: null,
+      attachments: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    commitNotes([note, ...notesRef.current]);
+    try {
+      await putCachedNote(note);
+      await queue({ operation: 'create', noteId: note._id, payload: input });
+    } catch {
+      return createDirectly(note, input);
+    }
+    await reloadOutbox();
+    syncOutbox();
+    return note;
+  };
+
+  // Create a note on the server right away instead of queueing it, for callers
+  // that report whether it was saved, like imports. Online only.
+  const createNoteOnServer = async (input: NoteInput & NoteChanges) => {
+    const saved = await notesApi.create(input);
+    commitNotes(sortNotes([saved, ...notesRef.current]));
+    await putCachedNote(saved).catch(() => undefined);
+    return saved;
+  };
+
+  // Without IndexedDB there is no cache or outbox, so changes go straight to the
+  // server and the optimistic one is undone if that fails too
+  const createDirectly = async (local: Note, input: NoteInput) => {
+    try {
+      const saved = await notesApi.create(input);
+      idMapRef.current[local._id] = saved._id;
+      commitNotes(
+        notesRef.current.map((note) => (note._id === local._id ? saved : note)),
+        { idMap: { [local._id]: saved._id } }
+      );
+      return saved;
+    } catch (error) {
+      commitNotes(notesRef.current.filter((note) => note._id !== local._id));
+      throw error;
+    }
+  };
+
+  // Callers may still hold the temporary id of a note that has since synced
+  const resolveNoteId = (noteId: string) => idMapRef.current[noteId] ?? noteId;
+
+  const updateNote = async (requestedId: string, changes: NoteChanges) => {
+    const noteId = resolveNoteId(requestedId);
+    const existing = notesRef.current.find((note) => note._id === noteId);
+    if (!existing) return undefined;
+
+    const updated: Note = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    commitNotes(notesRef.current.map((note) => (note._id === noteId ? updated : note)));
+    try {
+      await putCachedNote(updated);
+      await queueUpdate(noteId, existing, changes);
+    } catch {
+      return updateDirectly(existing, updated, changes);
+    }
+    await reloadOutbox();
+    syncOutbox();
+    return updated;
+  };
+
+  const queueUpdate = async (noteId: string, existing: Note, changes: NoteChanges) => {
+    // Fold into the note's last queued create/update unless that one is already on the wire
+    await withOutboxLock(async () => {
+      // The note's create may have synced while waiting for the lock
+      const targetId = resolveNoteId(noteId);
+      const last = (await getOutbox()).filter((e) => e.noteId === targetId).pop();
+      if (last && last.operation !== 'delete' && last.status === 'pending' && last.id !== inFlightRef.current) {
+        await putOutboxEntry({ ...last, payload: { ...last.payload, ...changes } });
+      } else {
+        await queue({
+          operation: 'update',
+          noteId: targetId,
+          payload: changes,
+          baseUpdatedAt: isLocalId(noteId) ? undefined : existing.updatedAt
+        });
+      }
+    });
+  };
+
+  // Only the server's copy or the rollback is applied if nothing else changed the note meanwhile
+  const updateDirectly = async (existing: Note, updated: Note, changes: NoteChanges) => {
+    const replaceIfUnchanged = (next: Note) => {
+      if (notesRef.current.find((note) => note._id === existing._id) !== updated) return;
+      commitNotes(notesRef.current.map((note) => (note._id === existing._id ? next : note)));
+    };
+
+    try {
+      const saved = await notesApi.update(existing._id, changes);
+      replaceIfUnchanged(saved);
+      return saved;
+    } catch (error) {
+      replaceIfUnchanged(existing);
+      throw error;
+    }
+  };
+
+  // A note past the loaded pages can be passed in, so its delete still notices
+  // edits made elsewhere in the meantime
+  const deleteNote = async (requestedId: string, unloaded?: Note) => {
+    const noteId = resolveNoteId(requestedId);
+    const existing = notesRef.current.find((note) => note._id === noteId);
+    commitNotes(notesRef.current.filter((note) => note._id !== noteId));
+    try {
+      await removeCachedNote(noteId);
+      await queueDelete(noteId, existing ?? unloaded);
+    } catch {
+      try {
+        await notesApi.remove(noteId);
+      } catch (error) {
+        if (existing) commitNotes(sortNotes([existing, ...notesRef.current.filter((note) => note._id !== noteId)]));
+        throw error;
+      }
+      return;
+    }
+    await reloadOutbox();
+    syncOutbox();
+  };
+
+  const queueDelete = async (noteId: string, existing: Note | undefined) => {
+    await withOutboxLock(async () => {
+      const targetId = resolveNoteId(noteId);
+      if (targetId !== noteId) await removeCachedNote(targetId);
+      const entries = (await getOutbox()).filter((e) => e.noteId === targetId);
+      const unsentCreate = entries.find((e) => e.operation === 'create' && e.id !== inFlightRef.current);
+
+      if (unsentCreate) {
+        // The server never saw this note, so dropping its queued changes is enough
+        await removeOutboxEntries(entries.flatMap((e) => (e.id === undefined ? [] : [e.id])));
+      } else {
+        const baseUpdatedAt = entries.find((e) => e.operation === 'update')?.baseUpdatedAt ?? existing?.updatedAt;
+        const unsentEdits = entries.filter((e) => e.operation === 'update' && e.id !== inFlightRef.current);
+        await removeOutboxEntries(unsentEdits.flatMap((e) => (e.id === undefined ? [] : [e.id])));
+        await queue({
+          operation: 'delete',
+          noteId: targetId,
+          baseUpdatedAt: isLocalId(noteId) ? undefined : baseUpdatedAt
+        });
+      }
+    });
+  };
+
+  // Attachments are uploaded and removed directly, not through the outbox. Uploads
+  // can finish in any order, so each change is merged in by id rather than taking
+  // the list from one response, and edits that haven't synced are left alone.
+  const changeAttachments = async (
+    noteId: string,
+    change: (attachments: Attachment[]) => Attachment[],
+    updatedAt: string
+  ) => {
+    const existing = notesRef.current.find((note) => note._id === noteId);
+    if (!existing) return;
+
+    const isNewer = updatedAt > existing.updatedAt;
+    const updated: Note = {
+      ...existing,
+      attachments: change(existing.attachments),
+      updatedAt: isNewer ? updatedAt : existing.updatedAt
+    };
+    commitNotes(notesRef.current.map((note) => (note._id === noteId ? updated : note)));
+    // The text didn't change, so a draft of it isn't out of date
+    if (isNewer && userIdRef.current) rebaseNoteDraft(userIdRef.current, noteId, existing.updatedAt, updatedAt);
+    // The server already has the change; without the cache it only lasts until reload
+    await putCachedNote(updated).catch(() => undefined);
+  };
+
+  const addAttachment = (noteId: string, attachment: Attachment, updatedAt: string) =>
+    changeAttachments(
+      noteId,
+      (attachments) => [...attachments.filter((a) => a._id !== attachment._id), attachment],
+      updatedAt
+    );
+
+  const removeAttachment = (noteId: string, attachmentId: string, updatedAt: string) =>
+    changeAttachments(noteId, (attachments) => attachments.filter((a) => a._id !== attachmentId), updatedAt);
+
+  // Rename a tag on every note that has it, including notes past the loaded
+  // pages; returns how many notes changed
+  const renameTag = async (from: string, to: string) => {
+    if (cursorRef.current) {
+      // Load the others that have it, so the change goes through the outbox like any other
+      const unloaded = (await fetchUnloadedNotes()).filter((note) => note.tags.includes(from));
+      if (unloaded.length > 0) {
+        commitNotes(sortNotes([...unloaded, ...notesRef.current]));
+        await Promise.all(unloaded.map((note) => putCachedNote(note))).catch(() => undefined);
+      }
+    }
+
+    const affected = notesRef.current.filter((note) => note.tags.includes(from));
+    for (const note of affected) {
+      await updateNote(note._id, { tags: replaceTag(note.tags, from, to) });
+    }
+    return affected.length;
+  };
+
+  const retrySync = async (noteId: string) => {
+    await withOutboxLock(async () => {
+      const failed = (await getOutbox()).filter((e) => e.noteId === noteId && e.status === 'failed');
+      await Promise.all(failed.map((e) => putOutboxEntry({ ...e, status: 'pending', error: undefined })));
+    });
+    await reloadOutbox();
+    await syncOutbox();
+  };
+
+  const discardChanges = async (noteId: string) => {
+    await withOutboxLock(async () => {
+      const entries = (await getOutbox()).filter((e) => e.noteId === noteId && e.id !== inFlightRef.current);
+      await removeOutboxEntries(entries.flatMap((e) => (e.id === undefined ? [] : [e.id])));
+    });
+    if (isLocalId(noteId)) {
+      commitNotes(notesRef.current.filter((note) => note._id !== noteId));
+      await removeCachedNote(noteId);
+    }
+    await reloadOutbox();
+    await fetchNotes();
+  };
+
+  // Signing out on purpose wipes the cache, so whoever uses this computer next
+  // can't read the notes. Changes that still haven't synced would go with it,
+  // so that needs confirming. Resolves false if the user stays signed in.
+  const signOut = async () => {
+    await syncOutbox();
+
+    let unsyncedNotes = 0;
+    try {
+      unsyncedNotes = new Set((await getOutbox()).map((e) => e.noteId)).size;
+    } catch {
+      // Without IndexedDB there is nothing queued or cached
+    }
+    if (unsyncedNotes > 0 && !window.confirm(t('notes.signOutUnsyncedConfirm', { count: unsyncedNotes }))) {
+      return false;
+    }
+
+    await clearOfflineStore().catch(() => undefined);
+    localStorage.removeItem(CACHE_OWNER_KEY);
+    logout();
+    return true;
+  };
+
+  const getSyncStatus = (noteId: string): SyncStatus => {
+    const entries = outbox.filter((e) => e.noteId === noteId);
+    if (entries.some((e) => e.status === 'failed')) return 'failed';
+    return entries.length > 0 ? 'pending' : 'synced';
+  };
+
+  const value = {
+    notes,
+    isLoading,
+    isOnline,
+    isSyncing,
+    hasMore,
+    isLoadingMore,
+    loadMoreNotes,
+    fetchNote,
+    fetchUnloadedNotes,
+    createNote,
+    createNoteOnServer,
+    updateNote,
+    deleteNote,
+    addAttachment,
+    removeAttachment,
+    renameTag,
+    refreshNotes: fetchNotes,
+    retrySync,
+    discardChanges,
+    getSyncStatus,
+    resolveNoteId,
+    signOut
+  };
+
+  return (
+    <NotesContext.Provider value={value}>
+      {children}
+    </NotesContext.Provider>
+  );
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { ResolvedTheme, ThemePreference } from '../config/themes';
+
+export interface ThemeContextType {
+  theme: ThemePreference;
+  // What is actually shown once 'system' is resolved
+  resolvedTheme: ResolvedTheme;
+  accent: string;
+  setTheme: (theme: ThemePreference) => void;
+  setAccent: (accent: string) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export const useTheme = () => {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
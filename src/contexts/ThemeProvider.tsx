@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { ThemeContext } from './ThemeContext';
+import {
+  ACCENT_STORAGE_KEY,
+  DEFAULT_ACCENT,
+  THEME_STORAGE_KEY,
+  accentThemes,
+  themePreferences
+} from '../config/themes';
+import type { ResolvedTheme, ThemePreference } from '../config/themes';
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+const darkQuery = '(prefers-color-scheme: dark)';
+
+const readTheme = (): ThemePreference => {
+  const stored = localStorage.getItem(THEME_STORAGE_KEY);
+  return themePreferences.find((option) => option.id === stored)?.id ?? 'system';
+};
+
+const readAccent = (): string => {
+  const stored = localStorage.getItem(ACCENT_STORAGE_KEY);
+  return accentThemes.some((option) => option.id === stored) ? stored! : DEFAULT_ACCENT;
+};
+
+const getSystemTheme = (): ResolvedTheme => (window.matchMedia(darkQuery).matches ? 'dark' : 'light');
+
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const [theme, setThemeState] = useState<ThemePreference>(readTheme);
+  const [accent, setAccentState] = useState(readAccent);
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>(getSystemTheme);
+
+  const resolvedTheme = theme === 'system' ? systemTheme : theme;
+
+  // Follow the OS setting while it changes
+  useEffect(() => {
+    const query = window.matchMedia(darkQuery);
+    const handleChange = () => setSystemTheme(query.matches ? 'dark' : 'light');
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // Keep other tabs in step when the choice changes there
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === THEME_STORAGE_KEY) setThemeState(readTheme());
+      if (e.key === ACCENT_STORAGE_KEY) setAccentState(readAccent());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.classList.toggle('dark', resolvedTheme === 'dark');
+    root.dataset.accent = accent;
+  }, [resolvedTheme, accent]);
+
+  const setTheme = (next: ThemePreference) => {
+    localStorage.setItem(THEME_STORAGE_KEY, next);
+    setThemeState(next);
+  };
+
+  const setAccent = (next: string) => {
+    localStorage.setItem(ACCENT_STORAGE_KEY, next);
+    setAccentState(next);
+  };
+
+  const value = { theme, resolvedTheme, accent, setTheme, setAccent };
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
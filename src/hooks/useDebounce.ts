@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Returns `value` once it has stopped changing for `delay` milliseconds
+export const useDebounce = <T>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedValue(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { deleteDraft, isDraftEmpty, saveDraft } from '../utils/drafts';
+import type { NoteDraft } from '../utils/drafts';
+
+type DraftValue = Omit<NoteDraft, 'savedAt'>;
+
+// Saves `draft` to local storage once typing pauses, and right away when the
+// page is hidden or the editor unmounts (e.g. the session expired). Pass null
+// while there is nothing to keep; call discard() once the draft is sent or
+// thrown away so a pending save doesn't bring it back.
+export const useDraftAutosave = (userId: string | undefined, draft: DraftValue | null, delay = 500) => {
+  const pendingRef = useRef<DraftValue | null>(null);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending || !userId) return;
+
+    if (isDraftEmpty(pending)) deleteDraft(userId, pending.key);
+    else saveDraft(userId, pending);
+  }, [userId]);
+
+  useEffect(() => {
+    pendingRef.current = draft;
+    if (!draft) return;
+
+    const timer = window.setTimeout(flush, delay);
+    return () => window.clearTimeout(timer);
+  }, [draft, delay, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const discard = useCallback((key: string) => {
+    pendingRef.current = null;
+    if (userId) deleteDraft(userId, key);
+  }, [userId]);
+
+  return { flush, discard };
+};
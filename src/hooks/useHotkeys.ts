@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { isDialogOpen, isTypingTarget, matchesHotkey } from '../utils/shortcuts';
+
+export interface Hotkey {
+  // One combo or alternatives, see utils/shortcuts
+  combo: string | string[];
+  handler: (event: KeyboardEvent) => void;
+  // Fire even when focus is in a text field
+  allowWhileTyping?: boolean;
+  // Fire even when a modal dialog is open
+  allowInDialogs?: boolean;
+}
+
+// Window-level keyboard shortcuts. The latest handlers are always used, so
+// callers can pass a fresh array on every render.
+export const useHotkeys = (hotkeys: Hotkey[], enabled = true) => {
+  const hotkeysRef = useRef(hotkeys);
+
+  useEffect(() => {
+    hotkeysRef.current = hotkeys;
+  }, [hotkeys]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      // Enter on a focused link or button belongs to that control
+      if (
+        event.key === 'Enter' &&
+        event.target instanceof HTMLElement &&
+        event.target.closest('a, button, input, select, textarea, [role="button"]')
+      ) {
+        return;
+      }
+
+      const hotkey = hotkeysRef.current.find(({ combo }) =>
+        (Array.isArray(combo) ? combo : [combo]).some((c) => matchesHotkey(event, c))
+      );
+      if (!hotkey) return;
+      if (!hotkey.allowWhileTyping && isTypingTarget(event.target)) return;
+      if (!hotkey.allowInDialogs && isDialogOpen()) return;
+
+      event.preventDefault();
+      hotkey.handler(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
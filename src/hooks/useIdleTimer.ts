@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { broadcastToTabs, subscribeToTabs } from '../utils/tabSync';
+
+interface UseIdleTimerOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onIdle: () => void;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+// Activity is shared with other tabs at most this often
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+
+// Calls `onIdle` after `timeoutMs` without user activity. For the last
+// `warningMs` it reports a countdown; activity no longer counts then, so the
+// user has to confirm they're still there with `stayActive`. Activity in any
+// open tab counts.
+export const useIdleTimer = ({ enabled, timeoutMs, warningMs, onIdle }: UseIdleTimerOptions) => {
+  const lastActivityRef = useRef(Date.now());
+  const warningRef = useRef(false);
+  const lastBroadcastRef = useRef(0);
+  const onIdleRef = useRef(onIdle);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    lastActivityRef.current = Date.now();
+    warningRef.current = false;
+
+    const markActive = () => {
+      if (warningRef.current) return;
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastBroadcastRef.current > ACTIVITY_BROADCAST_INTERVAL_MS) {
+        lastBroadcastRef.current = now;
+        broadcastToTabs({ type: 'auth:activity' });
+      }
+    };
+
+    // Compares timestamps rather than counting ticks, so a throttled
+    // background tab still times out on schedule
+    const check = () => {
+      const remaining = timeoutMs - (Date.now() - lastActivityRef.current);
+      if (remaining <= 0) {
+        warningRef.current = false;
+        setSecondsLeft(null);
+        onIdleRef.current();
+        return;
+      }
+      warningRef.current = remaining <= warningMs;
+      setSecondsLeft(warningRef.current ? Math.ceil(remaining / 1000) : null);
+    };
+
+    // Another tab was used, or its "stay signed in" was clicked
+    const unsubscribe = subscribeToTabs((message) => {
+      if (message.type !== 'auth:activity') return;
+      lastActivityRef.current = Date.now();
+      warningRef.current = false;
+      setSecondsLeft(null);
+    });
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    const timer = setInterval(check, 1000);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const stayActive = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    lastBroadcastRef.current = lastActivityRef.current;
+    warningRef.current = false;
+    setSecondsLeft(null);
+    broadcastToTabs({ type: 'auth:activity' });
+  }, []);
+
+  return { secondsLeft: enabled ? secondsLeft : null, stayActive };
+};
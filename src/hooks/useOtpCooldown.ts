@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getOtpCooldown, recordOtpRequest } from '../utils/otpCooldown';
+
+// Live view of the persisted OTP cooldown for `email`, ticking once a second
+// while a countdown is running
+export const useOtpCooldown = (email: string) => {
+  const [now, setNow] = useState(Date.now);
+  const cooldown = getOtpCooldown(email, now);
+  const isCounting = cooldown.secondsLeft > 0;
+
+  useEffect(() => {
+    if (!isCounting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCounting]);
+
+  const recordRequest = useCallback(() => {
+    const time = Date.now();
+    recordOtpRequest(email, time);
+    setNow(time);
+  }, [email]);
+
+  return { ...cooldown, recordRequest };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+const STORAGE_PREFIX = 'scroll:';
+
+// Remember the window scroll position under `key` and put it back once the
+// page says its content is ready (e.g. the notes list has rendered)
+export const useScrollRestoration = (key: string, ready: boolean) => {
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) return;
+    restoredRef.current = true;
+
+    const saved = Number(sessionStorage.getItem(STORAGE_PREFIX + key));
+    if (saved > 0) {
+      // Wait a frame so the list has laid out at its full height
+      requestAnimationFrame(() => window.scrollTo(0, saved));
+    }
+  }, [key, ready]);
+
+  useEffect(() => {
+    // Saved on every scroll rather than on unmount: by the time cleanup runs the
+    // next page has rendered and the browser may already have clamped scrollY
+    const save = () => {
+      sessionStorage.setItem(STORAGE_PREFIX + key, String(Math.round(window.scrollY)));
+    };
+
+    window.addEventListener('scroll', save, { passive: true });
+    return () => window.removeEventListener('scroll', save);
+  }, [key]);
+};
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { RefCallback } from 'react';
+
+// Window-scrolled list virtualization for variable-height rows.
+// Measured heights are cached by key for the whole session so a list that
+// remounts (e.g. after visiting a note) lays out exactly as before and scroll
+// restoration lands in the right place.
+
+const measurementCache = new Map<string, number>();
+
+interface UseVirtualListOptions {
+  keys: string[];
+  estimateSize: number;
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  key: string;
+  index: number;
+  start: number;
+}
+
+export const useVirtualList = ({ keys, estimateSize, overscan = 4 }: UseVirtualListOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [sizes, setSizes] = useState(() => new Map(measurementCache));
+  const [range, setRange] = useState({ start: 0, end: Math.min(keys.length, 10) });
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Map<Element, string>());
+  const refCallbacksRef = useRef(new Map<string, RefCallback<HTMLElement>>());
+
+  const offsets = useMemo(() => {
+    const result: number[] = new Array(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (sizes.get(key) ?? estimateSize);
+    });
+    return result;
+  }, [keys, estimateSize, sizes]);
+
+  const totalSize = offsets[keys.length];
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = container.getBoundingClientRect().top + window.scrollY;
+    const viewportStart = window.scrollY - top;
+    const viewportEnd = viewportStart + window.innerHeight;
+
+    // Binary search for the first row that ends below the top of the viewport
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= viewportStart) low = mid + 1;
+      else high = mid;
+    }
+
+    let end = low;
+    while (end < keys.length && offsets[end] < viewportEnd) end++;
+
+    const next = {
+      start: Math.max(0, low - overscan),
+      end: Math.min(keys.length, end + overscan)
+    };
+    setRange((prev) => (prev.start === next.start && prev.end === next.end ? prev : next));
+  }, [keys.length, offsets, overscan]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, [updateRange]);
+
+  useEffect(() => {
+    const elements = elementsRef.current;
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const key = elements.get(entry.target);
+        const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height);
+        if (key !== undefined && height > 0 && measurementCache.get(key) !== height) {
+          measurementCache.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setSizes(new Map(measurementCache));
+    });
+
+    elements.forEach((_, element) => observerRef.current?.observe(element));
+    return () => observerRef.current?.disconnect();
+  }, []);
+
+  // Ref callback for each rendered row so its real height replaces the estimate.
+  // Each key keeps the same callback, so React doesn't detach and re-attach
+  // every row (and the observer re-observe it) on each render.
+  const measureRef = useCallback((key: string) => {
+    const callbacks = refCallbacksRef.current;
+    let callback = callbacks.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        if (!element) return;
+        elementsRef.current.set(element, key);
+        observerRef.current?.observe(element);
+        return () => {
+          elementsRef.current.delete(element);
+          observerRef.current?.unobserve(element);
+        };
+      };
+      callbacks.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // Forget the callbacks of rows that have left the list
+  useEffect(() => {
+    const current = new Set(keys);
+    const callbacks = refCallbacksRef.current;
+    callbacks.forEach((_, key) => {
+      if (!current.has(key)) callbacks.delete(key);
+    });
+  }, [keys]);
+
+  // Scroll the window just enough to bring a row fully into view, e.g. when
+  // moving through the list with the keyboard
+  const scrollToIndex = useCallback((index: number) => {
+    const container = containerRef.current;
+    if (!container || index < 0 || index >= keys.length) return;
+
+    const top = container.getBoundingClientRect().top + window.scrollY + offsets[index];
+    const bottom = offsets[index + 1] - offsets[index] + top;
+    if (top < window.scrollY) {
+      window.scrollTo({ top });
+    } else if (bottom > window.scrollY + window.innerHeight) {
+      window.scrollTo({ top: bottom - window.innerHeight });
+    }
+  }, [keys.length, offsets]);
+
+  const virtualItems: VirtualItem[] = [];
+  for (let index = range.start; index < Math.min(range.end, keys.length); index++) {
+    virtualItems.push({ key: keys[index], index, start: offsets[index] });
+  }
+
+  return { containerRef, totalSize, virtualItems, measureRef, scrollToIndex };
+};
@@ -0,0 +1,620 @@
+import type { Messages } from './en';
+
+// Arabic uses six plural forms: zero, one, two, few (3-10), many (11-99) and other
+export const ar: Messages = {
+  // Common
+  'common.cancel': 'إلغاء',
+  'common.done': 'تم',
+  'common.save': 'حفظ',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.delete': 'حذف',
+  'common.edit': 'تعديل',
+  'common.close': 'إغلاق',
+  'common.backToNotes': 'العودة إلى الملاحظات',
+  'common.signOut': 'تسجيل الخروج',
+  'common.loggedOut': 'تم تسجيل الخروج بنجاح!',
+  'common.untitled': 'بلا عنوان',
+  'common.undo': 'تراجع',
+  'common.loading': 'جارٍ التحميل...',
+
+  // Validation
+  'validation.email.required': 'البريد الإلكتروني مطلوب',
+  'validation.email.invalid': 'يرجى إدخال بريد إلكتروني صالح',
+  'validation.password.required': 'كلمة المرور مطلوبة',
+  'validation.password.minLength': 'يجب أن تتكون كلمة المرور من 8 أحرف على الأقل',
+  'validation.password.pattern': 'يجب أن تحتوي كلمة المرور على حرف كبير وحرف صغير ورقم ورمز خاص',
+  'validation.name.required': 'الاسم مطلوب',
+  'validation.name.minLength': 'يجب أن يتكون الاسم من حرفين على الأقل',
+  'validation.name.maxLength': 'يجب أن يكون الاسم أقل من 50 حرفًا',
+  'validation.name.pattern': 'يمكن أن يحتوي الاسم على أحرف ومسافات فقط',
+  'validation.dateOfBirth.invalid': 'يرجى إدخال تاريخ ميلاد صالح',
+  'validation.dateOfBirth.future': 'لا يمكن أن يكون تاريخ الميلاد في المستقبل',
+  'validation.otp.required': 'رمز التحقق مطلوب',
+  'validation.otp.length': 'يجب أن يتكون رمز التحقق من {length} أرقام بالضبط',
+  'validation.otp.numeric': 'يجب أن يحتوي رمز التحقق على أرقام فقط',
+  'validation.terms.required': 'يجب أن توافق على الشروط والأحكام',
+
+  // API errors
+  'apiError.NETWORK_ERROR': 'تعذّر الوصول إلى الخادم. يرجى التحقق من اتصالك.',
+  'apiError.CANCELLED': 'تم إلغاء الطلب',
+  'apiError.BAD_REQUEST': 'الطلب غير صالح',
+  'apiError.VALIDATION_ERROR': 'يرجى مراجعة الحقول المحددة',
+  'apiError.UNAUTHORIZED': 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.',
+  'apiError.FORBIDDEN': 'ليس لديك إذن للقيام بذلك',
+  'apiError.NOT_FOUND': 'تعذّر العثور على العنصر المطلوب',
+  'apiError.CONFLICT': 'قام شخص آخر بتغيير هذا العنصر',
+  'apiError.RATE_LIMITED': 'طلبات كثيرة جدًا. يرجى المحاولة لاحقًا.',
+  'apiError.SERVER_ERROR': 'حدث خطأ من جانبنا. يرجى المحاولة مرة أخرى.',
+  'apiError.INVALID_RESPONSE': 'تلقينا استجابة غير متوقعة من الخادم',
+  'apiError.UNKNOWN': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+
+  // Sign in and sign up
+  'auth.signUpLink': 'إنشاء حساب',
+  'auth.email': 'البريد الإلكتروني',
+  'auth.emailPlaceholder': 'أدخل بريدك الإلكتروني',
+  'auth.getOtp': 'احصل على رمز التحقق',
+  'auth.sendingOtp': 'جارٍ إرسال رمز التحقق...',
+  'auth.signInLink': 'تسجيل الدخول',
+  'auth.signInWith': 'تسجيل الدخول باستخدام {provider}',
+  'auth.toast.signedOutInOtherTab': 'لقد سجّلت الخروج في علامة تبويب أخرى.',
+  'auth.toast.signedOutIdle': 'تم تسجيل خروجك بعد فترة من عدم النشاط.',
+  'signIn.title': 'تسجيل الدخول',
+  'signIn.subtitle': 'مرحبًا بعودتك! يرجى تسجيل الدخول إلى حسابك',
+  'signIn.rememberMe': 'إبقائي مسجّل الدخول',
+  'signIn.noAccount': 'ليس لديك حساب؟',
+  'signIn.back': 'العودة إلى تسجيل الدخول',
+  'signIn.toast.enterOtp': 'أدخل رمز التحقق الذي أرسلناه إلى بريدك الإلكتروني',
+  'signIn.toast.otpSent': 'تم إرسال رمز التحقق إلى بريدك الإلكتروني لتأكيد تسجيل الدخول',
+  'signIn.toast.failed': 'فشل تسجيل الدخول',
+  'signUp.title': 'إنشاء حساب',
+  'signUp.subtitle': 'أنشئ حسابك للبدء',
+  'signUp.agreeTo': 'أوافق على',
+  'signUp.terms': 'الشروط والأحكام',
+  'signUp.creating': 'جارٍ إنشاء الحساب...',
+  'signUp.haveAccount': 'لديك حساب بالفعل؟',
+  'signUp.existsHint': 'إذا ظهر لك خطأ "البريد الإلكتروني موجود بالفعل"، فجرّب تسجيل الدخول بدلًا من ذلك.',
+  'signUp.back': 'العودة إلى إنشاء حساب',
+  'signUp.toast.registered': 'تم التسجيل بنجاح! يرجى التحقق من بريدك الإلكتروني للحصول على رمز التحقق.',
+  'signUp.toast.emailExists': 'هذا البريد الإلكتروني مسجّل بالفعل. يرجى استخدام بريد آخر أو تسجيل الدخول بدلًا من ذلك.',
+  'signUp.toast.failed': 'فشل التسجيل',
+  'profile.name': 'اسمك',
+  'profile.namePlaceholder': 'أدخل اسمك',
+  'profile.dateOfBirth': 'تاريخ الميلاد',
+
+  // One-time codes
+  'otp.label': 'رمز التحقق',
+  'otp.seconds': '{seconds} ث',
+  'otp.limitReached': 'تم بلوغ حد رموز التحقق، حاول مرة أخرى بعد {time}',
+  'otp.resendIn': 'إعادة إرسال الرمز بعد {time}',
+  'otp.resend': 'إعادة إرسال الرمز',
+  'otp.sending': 'جارٍ الإرسال...',
+  'otp.verify': 'تحقق من الرمز',
+  'otp.verifying': 'جارٍ التحقق...',
+  'otp.toast.verifyFailed': 'فشل التحقق من الرمز',
+  'otp.toast.tooManyRequests': 'طلبات رموز كثيرة جدًا. يرجى المحاولة لاحقًا.',
+  'otp.toast.wait': {
+    zero: 'يرجى الانتظار قبل طلب رمز آخر',
+    one: 'يرجى الانتظار ثانية واحدة قبل طلب رمز آخر',
+    two: 'يرجى الانتظار ثانيتين قبل طلب رمز آخر',
+    few: 'يرجى الانتظار {count} ثوانٍ قبل طلب رمز آخر',
+    many: 'يرجى الانتظار {count} ثانية قبل طلب رمز آخر',
+    other: 'يرجى الانتظار {count} ثانية قبل طلب رمز آخر',
+  },
+  'otp.toast.sentToEmail': 'تم إرسال رمز التحقق إلى بريدك الإلكتروني',
+  'otp.toast.sendFailed': 'فشل إرسال رمز التحقق',
+  'otp.title': 'تحقق من الرمز',
+  'otp.sentTo': 'أدخل رمز التحقق المرسل إلى {email}',
+  'otp.toast.verified': 'تم التحقق من البريد الإلكتروني بنجاح!',
+  'otp.digit': 'الرقم {index}',
+  'otp.group': 'رمز لمرة واحدة',
+
+  // Identity provider sign-in
+  'oauth.access_denied': 'تم إلغاء تسجيل الدخول.',
+  'oauth.consent_required': 'يرجى السماح بالوصول لمتابعة تسجيل الدخول.',
+  'oauth.interaction_required': 'يحتاج مزوّد الخدمة إلى مزيد من المعلومات قبل أن تتمكن من تسجيل الدخول.',
+  'oauth.login_required': 'يرجى تسجيل الدخول لدى مزوّد الخدمة للمتابعة.',
+  'oauth.temporarily_unavailable': 'مزوّد تسجيل الدخول غير متاح مؤقتًا. يرجى المحاولة لاحقًا.',
+  'oauth.server_error': 'واجه مزوّد تسجيل الدخول مشكلة. يرجى المحاولة لاحقًا.',
+  'oauth.failed': 'فشل تسجيل الدخول عبر مزوّد الخدمة.',
+  'authCallback.completing': 'جارٍ إكمال تسجيل الدخول...',
+  'authCallback.failed': 'فشل تسجيل الدخول',
+  'authCallback.invalidLink': 'رابط تسجيل الدخول هذا غير صالح أو منتهي الصلاحية. يرجى المحاولة مرة أخرى.',
+  'authCallback.noCode': 'لم يُرجع مزوّد تسجيل الدخول رمز تسجيل الدخول. يرجى المحاولة مرة أخرى.',
+  'authCallback.signedInWith': 'تم تسجيل الدخول باستخدام {provider}',
+  'authCallback.failedToComplete': 'تعذّر إكمال تسجيل الدخول. يرجى المحاولة مرة أخرى.',
+
+  // Idle sign-out
+  'idle.title': 'سيتم تسجيل خروجك قريبًا',
+  'idle.description': 'لم تكن نشطًا منذ فترة. حفاظًا على أمانك سيتم تسجيل خروجك خلال',
+  'idle.seconds': {
+    zero: 'لحظات.',
+    one: 'ثانية واحدة.',
+    two: 'ثانيتين.',
+    few: '{count} ثوانٍ.',
+    many: '{count} ثانية.',
+    other: '{count} ثانية.',
+  },
+  'idle.signOut': 'تسجيل الخروج',
+  'idle.stay': 'البقاء مسجّلًا',
+
+  // Welcome page
+  'welcome.title': 'مرحبًا',
+  'welcome.greeting': 'مرحبًا، {name}!',
+  'welcome.subtitle': 'لقد أنشأت حسابك وسجّلت الدخول إلى Highway Notes بنجاح',
+  'welcome.yourInformation': 'معلوماتك',
+  'welcome.editProfile': 'تعديل الملف الشخصي',
+  'welcome.fullName': 'الاسم الكامل',
+  'welcome.emailAddress': 'البريد الإلكتروني',
+  'welcome.accountStatus': 'حالة الحساب',
+  'welcome.verified': 'موثّق',
+  'welcome.goToDashboard': 'الانتقال إلى لوحة التحكم',
+  'welcome.createFirstNote': 'أنشئ ملاحظتك الأولى',
+  'welcome.feature.auth.title': 'مصادقة آمنة',
+  'welcome.feature.auth.body': 'حسابك محمي بالمصادقة عبر رمز التحقق وتسجيل الدخول عبر Google.',
+  'welcome.feature.email.title': 'التحقق من البريد الإلكتروني',
+  'welcome.feature.email.body': 'تم التحقق من بريدك الإلكتروني ويمكنك الآن استخدام جميع الميزات.',
+  'welcome.feature.profile.title': 'ملف شخصي',
+  'welcome.feature.profile.body': 'معلومات ملفك الشخصي محفوظة بأمان وجاهزة للاستخدام.',
+
+  // Not found
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.description': 'الصفحة التي تبحث عنها غير موجودة أو تم نقلها.',
+  'notFound.backToNotes': 'العودة إلى ملاحظاتك',
+  'notFound.goToSignIn': 'الانتقال إلى تسجيل الدخول',
+
+  // Dashboard
+  'dashboard.title': 'لوحة التحكم',
+  'dashboard.email': 'البريد الإلكتروني: {email}',
+  'dashboard.offline': 'أنت غير متصل. ستتم مزامنة التغييرات عند إعادة الاتصال.',
+  'dashboard.createNote': 'إنشاء ملاحظة',
+  'dashboard.createTitle': 'إنشاء ملاحظة جديدة',
+  'dashboard.unsentDrafts': {
+    zero: 'ليس لديك مسودات غير مرسلة',
+    one: 'لديك مسودة واحدة غير مرسلة',
+    two: 'لديك مسودتان غير مرسلتين',
+    few: 'لديك {count} مسودات غير مرسلة',
+    many: 'لديك {count} مسودة غير مرسلة',
+    other: 'لديك {count} مسودة غير مرسلة',
+  },
+  'dashboard.unsentDraftsTitle': 'مسودات غير مرسلة',
+  'dashboard.discardConfirm': 'هل تريد تجاهل هذه الملاحظة؟ سيتم حذف المسودة.',
+  'dashboard.tab.notes': 'الملاحظات',
+  'dashboard.tab.archive': 'الأرشيف',
+  'dashboard.tab.trash': 'المهملات',
+  'dashboard.empty.notes': 'لا توجد ملاحظات بعد. أنشئ ملاحظتك الأولى!',
+  'dashboard.empty.archive': 'لا توجد ملاحظات مؤرشفة.',
+  'dashboard.empty.trash': 'المهملات فارغة.',
+  'dashboard.import': 'استيراد',
+  'dashboard.export': 'تصدير',
+  'dashboard.exportNotes': 'تصدير الملاحظات',
+  'dashboard.selectToExport': 'اختر الملاحظات للتصدير',
+  'dashboard.selected': 'تم تحديد {count}',
+  'dashboard.exportSelected': 'تصدير المحدد',
+  'dashboard.exportAll': 'تصدير الكل',
+  'dashboard.emptyTrash': 'إفراغ المهملات',
+  'dashboard.emptyTrashConfirm': {
+    one: 'هل تريد حذف الملاحظة الموجودة في المهملات نهائيًا؟ لا يمكن التراجع عن ذلك.',
+    two: 'هل تريد حذف الملاحظتين الموجودتين في المهملات نهائيًا؟ لا يمكن التراجع عن ذلك.',
+    few: 'هل تريد حذف جميع الملاحظات ({count}) الموجودة في المهملات نهائيًا؟ لا يمكن التراجع عن ذلك.',
+    other: 'هل تريد حذف جميع الملاحظات ({count}) الموجودة في المهملات نهائيًا؟ لا يمكن التراجع عن ذلك.',
+  },
+  'dashboard.trashRetention': {
+    one: 'تُحذف الملاحظات الموجودة في المهملات نهائيًا بعد يوم واحد.',
+    two: 'تُحذف الملاحظات الموجودة في المهملات نهائيًا بعد يومين.',
+    few: 'تُحذف الملاحظات الموجودة في المهملات نهائيًا بعد {count} أيام.',
+    many: 'تُحذف الملاحظات الموجودة في المهملات نهائيًا بعد {count} يومًا.',
+    other: 'تُحذف الملاحظات الموجودة في المهملات نهائيًا بعد {count} يوم.',
+  },
+  'dashboard.checkOlder': 'عرض الملاحظات الأقدم',
+  'dashboard.noMatches': 'لا توجد ملاحظات تطابق بحثك.',
+  'dashboard.clearFilters': 'مسح عوامل التصفية',
+  'dashboard.matchCount': {
+    zero: 'لا توجد ملاحظات مطابقة',
+    one: 'ملاحظة واحدة مطابقة',
+    two: 'ملاحظتان مطابقتان',
+    few: '{count} ملاحظات مطابقة',
+    many: '{count} ملاحظة مطابقة',
+    other: '{count} ملاحظة مطابقة',
+  },
+  'dashboard.matchCountOf': {
+    few: '{shown} من {count} ملاحظات',
+    other: '{shown} من {count} ملاحظة',
+  },
+  'dashboard.toast.searchFailed': 'فشل البحث في الملاحظات',
+  'dashboard.toast.fillAllFields': 'يرجى ملء جميع الحقول',
+  'dashboard.toast.created': 'تم إنشاء الملاحظة بنجاح!',
+  'dashboard.toast.createdOffline': 'تم حفظ الملاحظة دون اتصال. ستتم مزامنتها عند إعادة الاتصال.',
+  'dashboard.toast.createFailed': 'فشل إنشاء الملاحظة',
+  'dashboard.toast.trashEmptied': 'تم إفراغ المهملات',
+  'dashboard.toast.emptyTrashFailed': 'فشل إفراغ المهملات',
+  'dashboard.toast.emptyTrashOffline': 'لم يتم تحميل كل الملاحظات، لذلك يحتاج إفراغ المهملات إلى اتصال',
+  'dashboard.toast.trashAlreadyEmpty': 'المهملات فارغة بالفعل',
+  'dashboard.toast.exportLoadFailed': 'فشل تحميل الملاحظات للتصدير',
+
+  // Notes
+  'note.lastUpdated': 'آخر تحديث {date}',
+  'note.archived': 'مؤرشفة',
+  'note.titleLabel': 'العنوان',
+  'note.titlePlaceholder': 'أدخل عنوان الملاحظة',
+  'note.contentLabel': 'المحتوى',
+  'note.contentPlaceholder': 'أدخل محتوى الملاحظة (يدعم Markdown)',
+  'note.tagsLabel': 'الوسوم',
+  'note.deleteForeverConfirm': 'هل تريد حذف "{title}" نهائيًا؟ لا يمكن التراجع عن ذلك.',
+  'note.toast.updateFailed': 'فشل تحديث الملاحظة',
+  'note.toast.archived': 'تمت أرشفة الملاحظة',
+  'note.toast.unarchived': 'تمت إعادة الملاحظة إلى ملاحظاتك',
+  'note.toast.restored': 'تمت استعادة الملاحظة',
+  'note.toast.restoreFailed': 'فشلت استعادة الملاحظة',
+  'note.toast.trashed': 'تم نقل الملاحظة إلى المهملات',
+  'note.toast.deleteFailed': 'فشل حذف الملاحظة',
+  'note.toast.deletedForever': 'تم حذف الملاحظة نهائيًا',
+  'notes.toast.fetchFailed': 'فشل جلب الملاحظات',
+  'notes.toast.loadMoreFailed': 'فشل تحميل المزيد من الملاحظات',
+  'notes.toast.syncFailed': 'فشلت مزامنة الملاحظة',
+  'notes.toast.keptAfterDelete': 'تم تغيير "{title}" على الخادم بعد أن حذفتها، لذلك تم الاحتفاظ بها.',
+  'notes.toast.createRolledBack': 'تعذّر حفظ "{title}" وتمت إزالتها. {reason}',
+  'notes.toast.updateRolledBack': 'تم التراجع عن تغييراتك على "{title}". {reason}',
+  'notes.toast.deleteRolledBack': 'تعذّر حذف "{title}" وتمت استعادتها. {reason}',
+  'notes.signOutUnsyncedConfirm': {
+    zero: 'لا توجد تغييرات غير متزامنة. تسجيل الخروج على أي حال؟',
+    one: 'توجد ملاحظة واحدة بها تغييرات لم تتم مزامنتها بعد. سيؤدي تسجيل الخروج إلى إزالتها من هذا الجهاز. تسجيل الخروج على أي حال؟',
+    two: 'توجد ملاحظتان بهما تغييرات لم تتم مزامنتها بعد. سيؤدي تسجيل الخروج إلى إزالتها من هذا الجهاز. تسجيل الخروج على أي حال؟',
+    few: 'توجد {count} ملاحظات بها تغييرات لم تتم مزامنتها بعد. سيؤدي تسجيل الخروج إلى إزالتها من هذا الجهاز. تسجيل الخروج على أي حال؟',
+    many: 'توجد {count} ملاحظة بها تغييرات لم تتم مزامنتها بعد. سيؤدي تسجيل الخروج إلى إزالتها من هذا الجهاز. تسجيل الخروج على أي حال؟',
+    other: 'توجد {count} ملاحظة بها تغييرات لم تتم مزامنتها بعد. سيؤدي تسجيل الخروج إلى إزالتها من هذا الجهاز. تسجيل الخروج على أي حال؟',
+  },
+
+  // Note cards
+  'noteCard.select': 'تحديد "{title}"',
+  'noteCard.pinned': 'مثبّتة',
+  'noteCard.pin': 'تثبيت الملاحظة',
+  'noteCard.unpin': 'إلغاء تثبيت الملاحظة',
+  'noteCard.archive': 'أرشفة الملاحظة',
+  'noteCard.unarchive': 'إلغاء أرشفة الملاحظة',
+  'noteCard.restore': 'استعادة الملاحظة',
+  'noteCard.deleteForever': 'حذف نهائي',
+  'noteCard.trash': 'نقل إلى المهملات',
+  'noteCard.retry': 'إعادة المحاولة',
+  'noteCard.discardChanges': 'تجاهل التغييرات',
+  'noteCard.purgeIn': {
+    zero: 'ستُحذف نهائيًا اليوم',
+    one: 'ستُحذف نهائيًا بعد يوم واحد',
+    two: 'ستُحذف نهائيًا بعد يومين',
+    few: 'ستُحذف نهائيًا بعد {count} أيام',
+    many: 'ستُحذف نهائيًا بعد {count} يومًا',
+    other: 'ستُحذف نهائيًا بعد {count} يوم',
+  },
+  'noteCard.attachments': {
+    zero: 'لا مرفقات',
+    one: 'مرفق واحد',
+    two: 'مرفقان',
+    few: '{count} مرفقات',
+    many: '{count} مرفقًا',
+    other: '{count} مرفق',
+  },
+  'sync.pending': 'قيد الانتظار',
+  'sync.synced': 'متزامنة',
+  'sync.failed': 'فشلت',
+  'sync.pendingTitle': 'حالة المزامنة: قيد الانتظار',
+  'sync.syncedTitle': 'حالة المزامنة: متزامنة',
+  'sync.failedTitle': 'حالة المزامنة: فشلت',
+
+  // Note page
+  'noteDetail.allNotes': 'كل الملاحظات',
+  'noteDetail.share': 'مشاركة',
+  'noteDetail.history': 'السجل',
+  'noteDetail.shareUnsynced': 'متاح بعد مزامنة الملاحظة',
+  'noteDetail.availableAfterSync': 'متاح بعد مزامنة الملاحظة',
+  'noteDetail.notFound': 'تعذّر العثور على هذه الملاحظة.',
+  'noteDetail.loadFailed': 'تعذّر تحميل هذه الملاحظة.',
+  'noteDetail.tryAgain': 'حاول مرة أخرى',
+  'noteDetail.editTitle': 'تعديل الملاحظة',
+  'noteDetail.draftFound': 'لديك تغييرات غير محفوظة من {date}.',
+  'noteDetail.draftOutdated': 'تم تحديث هذه الملاحظة بعد مسودتك من {date}.',
+  'noteDetail.compare': 'مقارنة',
+  'noteDetail.continueEditing': 'متابعة التعديل',
+  'noteDetail.inTrash': {
+    zero: 'في المهملات. ستُحذف نهائيًا اليوم.',
+    one: 'في المهملات. ستُحذف نهائيًا بعد يوم واحد.',
+    two: 'في المهملات. ستُحذف نهائيًا بعد يومين.',
+    few: 'في المهملات. ستُحذف نهائيًا بعد {count} أيام.',
+    many: 'في المهملات. ستُحذف نهائيًا بعد {count} يومًا.',
+    other: 'في المهملات. ستُحذف نهائيًا بعد {count} يوم.',
+  },
+  'noteDetail.archived': 'هذه الملاحظة مؤرشفة.',
+  'noteDetail.unarchive': 'إلغاء الأرشفة',
+  'noteDetail.unsavedChangesConfirm': 'لديك تغييرات غير محفوظة. هل تريد المغادرة بالتأكيد؟',
+  'noteDetail.toast.updated': 'تم تحديث الملاحظة بنجاح!',
+
+  // Drafts
+  'drafts.saved': 'حُفظت {date}',
+  'drafts.restore': 'استعادة',
+  'drafts.discard': 'تجاهل',
+  'draftConflict.title': 'تغيّرت هذه الملاحظة منذ مسودتك',
+  'draftConflict.description': 'تظهر الأسطر الموجودة في الملاحظة المحفوظة فقط باللون الأحمر، والأسطر الموجودة في مسودتك فقط باللون الأخضر.',
+  'draftConflict.keepSaved': 'الاحتفاظ بالنسخة المحفوظة',
+  'draftConflict.keepDraft': 'الاحتفاظ بمسودتي',
+
+  // Version history
+  'history.title': 'سجل الإصدارات',
+  'history.description': 'يُحفظ إصدار في كل مرة تتغير فيها هذه الملاحظة. تؤدي استعادة إصدار إلى حفظه كإصدار جديد، فلا يضيع شيء.',
+  'history.empty': 'لا توجد إصدارات سابقة بعد.',
+  'history.versions': 'الإصدارات المحفوظة',
+  'history.current': 'الحالي',
+  'history.currentOption': '{date} (الحالي)',
+  'history.compareWith': 'المقارنة مع',
+  'history.legend': 'الأسطر الحمراء موجودة فقط في إصدار {older}، والخضراء فقط في إصدار {newer}.',
+  'history.restore': 'استعادة هذا الإصدار',
+  'history.restoring': 'جارٍ الاستعادة...',
+  'history.toast.loadFailed': 'فشل تحميل سجل الإصدارات',
+  'history.toast.restored': 'تمت استعادة إصدار {date}',
+
+  // Attachments
+  'attachments.title': 'المرفقات',
+  'attachments.dropHint': 'أفلت الملفات هنا أو الصقها أو',
+  'attachments.choose': 'اختر ملفات',
+  'attachments.dropping': 'أفلت للإرفاق',
+  'attachments.limits': {
+    zero: 'صور وملفات PDF ونصوص وZIP حتى {size}.',
+    one: 'صور وملفات PDF ونصوص وZIP حتى {size}، ملف واحد لكل ملاحظة.',
+    two: 'صور وملفات PDF ونصوص وZIP حتى {size}، ملفان لكل ملاحظة.',
+    few: 'صور وملفات PDF ونصوص وZIP حتى {size}، {count} ملفات لكل ملاحظة.',
+    many: 'صور وملفات PDF ونصوص وZIP حتى {size}، {count} ملفًا لكل ملاحظة.',
+    other: 'صور وملفات PDF ونصوص وZIP حتى {size}، {count} ملف لكل ملاحظة.',
+  },
+  'attachments.offline': 'أعد الاتصال لإضافة المرفقات أو إزالتها.',
+  'attachments.uploading': 'جارٍ رفع {name}',
+  'attachments.cancelUpload': 'إلغاء رفع {name}',
+  'attachments.remove': 'إزالة {name}',
+  'attachments.removeConfirm': 'هل تريد إزالة "{name}" من هذه الملاحظة؟ سيُحذف الملف.',
+  'attachments.error.type': 'نوع الملف "{name}" غير مدعوم',
+  'attachments.error.size': 'حجم "{name}" أكبر من {size}',
+  'attachments.error.empty': 'الملف "{name}" فارغ',
+  'attachments.error.tooMany': {
+    zero: 'لا يمكن إرفاق ملفات بالملاحظة',
+    one: 'يمكن أن تحتوي الملاحظة على مرفق واحد على الأكثر',
+    two: 'يمكن أن تحتوي الملاحظة على مرفقين على الأكثر',
+    few: 'يمكن أن تحتوي الملاحظة على {count} مرفقات على الأكثر',
+    many: 'يمكن أن تحتوي الملاحظة على {count} مرفقًا على الأكثر',
+    other: 'يمكن أن تحتوي الملاحظة على {count} مرفق على الأكثر',
+  },
+  'attachments.toast.uploadFailed': 'فشل رفع "{name}"',
+  'attachments.toast.removed': 'تمت إزالة "{name}"',
+  'attachments.toast.removeFailed': 'فشلت إزالة "{name}"',
+
+  // Markdown editor
+  'editor.bold': 'غامق',
+  'editor.italic': 'مائل',
+  'editor.heading': 'عنوان',
+  'editor.bulletedList': 'قائمة نقطية',
+  'editor.numberedList': 'قائمة مرقمة',
+  'editor.code': 'شيفرة',
+  'editor.link': 'رابط',
+  'editor.placeholder.bold': 'نص غامق',
+  'editor.placeholder.italic': 'نص مائل',
+  'editor.placeholder.code': 'شيفرة',
+  'editor.placeholder.link': 'نص الرابط',
+  'editor.write': 'كتابة',
+  'editor.preview': 'معاينة',
+  'editor.nothingToPreview': 'لا يوجد ما يمكن معاينته',
+
+  // Search
+  'search.placeholder': 'البحث في الملاحظات',
+  'search.filterByDate': 'التصفية حسب التاريخ',
+  'search.dateField': 'التاريخ المستخدم للتصفية',
+  'search.created': 'تاريخ الإنشاء',
+  'search.updated': 'تاريخ التحديث',
+  'search.clearDates': 'مسح التواريخ',
+  'search.from': 'من',
+  'search.to': 'إلى',
+
+  // Tags
+  'tags.add': 'إضافة وسوم',
+  'tags.limit': {
+    one: 'وسم واحد كحد أقصى',
+    two: 'وسمان كحد أقصى',
+    few: '{count} وسوم كحد أقصى',
+    other: '{count} وسمًا كحد أقصى',
+  },
+  'tags.remove': 'إزالة الوسم {tag}',
+  'tags.matchMode': 'طريقة مطابقة الوسوم',
+  'tags.matchAny': 'مطابقة أي منها',
+  'tags.matchAll': 'مطابقة الكل',
+  'tags.clear': 'مسح',
+  'tags.manage': 'إدارة',
+  'tagManager.title': 'إدارة الوسوم',
+  'tagManager.description': 'تؤدي إعادة تسمية وسم إلى تحديث كل ملاحظة تستخدمه. وتؤدي إعادة التسمية إلى وسم موجود إلى دمج الوسمين.',
+  'tagManager.empty': 'لا توجد وسوم بعد. أضف وسومًا عند إنشاء ملاحظة.',
+  'tagManager.newName': 'الاسم الجديد لـ {tag}',
+  'tagManager.rename': 'إعادة تسمية الوسم أو دمجه',
+  'tagManager.partialCounts': 'تشمل الأعداد الملاحظات المحمّلة حتى الآن فقط.',
+  'tagManager.renameOffline': 'لم يتم تحميل كل الملاحظات، لذلك تحتاج إعادة تسمية الوسوم ودمجها إلى اتصال.',
+  'tagManager.noteCount': {
+    zero: 'لا توجد ملاحظات',
+    one: 'ملاحظة واحدة',
+    two: 'ملاحظتان',
+    few: '{count} ملاحظات',
+    many: '{count} ملاحظة',
+    other: '{count} ملاحظة',
+  },
+  'tagManager.mergeConfirm': 'الوسم "{to}" موجود بالفعل. هل تريد دمج "{from}" فيه؟',
+  'tagManager.toast.emptyName': 'لا يمكن أن يكون اسم الوسم فارغًا',
+  'tagManager.toast.merged': {
+    one: 'تم دمج "{from}" في "{to}" في ملاحظة واحدة',
+    two: 'تم دمج "{from}" في "{to}" في ملاحظتين',
+    few: 'تم دمج "{from}" في "{to}" في {count} ملاحظات',
+    other: 'تم دمج "{from}" في "{to}" في {count} ملاحظة',
+  },
+  'tagManager.toast.renamed': {
+    one: 'تمت إعادة تسمية "{from}" إلى "{to}" في ملاحظة واحدة',
+    two: 'تمت إعادة تسمية "{from}" إلى "{to}" في ملاحظتين',
+    few: 'تمت إعادة تسمية "{from}" إلى "{to}" في {count} ملاحظات',
+    other: 'تمت إعادة تسمية "{from}" إلى "{to}" في {count} ملاحظة',
+  },
+  'tagManager.toast.renameFailed': 'فشلت إعادة تسمية الوسم',
+
+  // Import and export
+  'import.title': 'استيراد الملاحظات',
+  'import.choose': 'اختر ملفات للاستيراد',
+  'import.reading': 'جارٍ قراءة الملفات...',
+  'import.formats': 'ملفات Markdown أو نص عادي أو JSON أو أرشيفات ZIP',
+  'import.errors': 'تعذّر استيراد بعض الملفات:',
+  'import.selected': {
+    few: 'تم تحديد {selected} من {count} ملاحظات',
+    other: 'تم تحديد {selected} من {count} ملاحظة',
+  },
+  'import.problem.existing': 'موجودة بالفعل في ملاحظاتك',
+  'import.problem.repeated': 'مكررة في هذا الاستيراد',
+  'import.problem.empty': 'ملاحظة فارغة',
+  'import.partialCheck': 'تم التحقق من التكرار في الملاحظات المحمّلة حتى الآن فقط. أعد الاتصال واختر الملفات مرة أخرى للتحقق منها كلها.',
+  'import.progress': 'جارٍ استيراد {done} من {total}...',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.submit': {
+    zero: 'استيراد',
+    one: 'استيراد ملاحظة واحدة',
+    two: 'استيراد ملاحظتين',
+    few: 'استيراد {count} ملاحظات',
+    many: 'استيراد {count} ملاحظة',
+    other: 'استيراد {count} ملاحظة',
+  },
+  'import.error.invalidJson': 'ملف JSON غير صالح',
+  'import.error.notAnExport': 'ليس ملف تصدير ملاحظات',
+  'import.error.unsupported': 'نوع ملف غير مدعوم',
+  'import.error.unreadable': 'تعذّرت قراءته',
+  'import.error.tooLarge': 'أكبر من {size}',
+  'import.error.unpackedTooLarge': {
+    zero: 'لم يُتخطَّ أي ملف',
+    one: 'تم تخطي ملف واحد، إذ يتجاوز حجم الأرشيف بعد فك ضغطه {size}',
+    two: 'تم تخطي ملفين، إذ يتجاوز حجم الأرشيف بعد فك ضغطه {size}',
+    few: 'تم تخطي {count} ملفات، إذ يتجاوز حجم الأرشيف بعد فك ضغطه {size}',
+    many: 'تم تخطي {count} ملفًا، إذ يتجاوز حجم الأرشيف بعد فك ضغطه {size}',
+    other: 'تم تخطي {count} ملف، إذ يتجاوز حجم الأرشيف بعد فك ضغطه {size}',
+  },
+  'import.toast.noneFound': 'لم يتم العثور على ملاحظات في الملفات المحددة',
+  'import.toast.readFailed': 'تعذّرت قراءة الملفات',
+  'import.toast.partial': {
+    few: 'تم استيراد {imported} من {count} ملاحظات. تعذّر حفظ {failed}. {reason}',
+    other: 'تم استيراد {imported} من {count} ملاحظة. تعذّر حفظ {failed}. {reason}',
+  },
+  'import.toast.imported': {
+    one: 'تم استيراد ملاحظة واحدة',
+    two: 'تم استيراد ملاحظتين',
+    few: 'تم استيراد {count} ملاحظات',
+    many: 'تم استيراد {count} ملاحظة',
+    other: 'تم استيراد {count} ملاحظة',
+  },
+  'import.toast.importedOffline': {
+    one: 'تم استيراد ملاحظة واحدة دون اتصال. ستتم مزامنتها عند إعادة الاتصال.',
+    two: 'تم استيراد ملاحظتين دون اتصال. ستتم مزامنتهما عند إعادة الاتصال.',
+    few: 'تم استيراد {count} ملاحظات دون اتصال. ستتم مزامنتها عند إعادة الاتصال.',
+    other: 'تم استيراد {count} ملاحظة دون اتصال. ستتم مزامنتها عند إعادة الاتصال.',
+  },
+  'export.title': {
+    one: 'تصدير الملاحظة',
+    two: 'تصدير ملاحظتين',
+    few: 'تصدير {count} ملاحظات',
+    other: 'تصدير {count} ملاحظة',
+  },
+  'export.format': 'الصيغة',
+  'export.markdownDescription': 'ملف .md لكل ملاحظة، مع العنوان والتواريخ في البيانات الوصفية',
+  'export.jsonDescription': 'ملف واحد يضم جميع الملاحظات',
+  'export.zip': 'التنزيل كأرشيف ZIP',
+  'export.failed': 'فشل تصدير الملاحظات',
+
+  // Share links
+  'share.title': 'مشاركة الملاحظة',
+  'share.description': 'يمكن لأي شخص لديه الرابط قراءة هذه الملاحظة دون تسجيل الدخول، لكن لا يمكنه تعديلها.',
+  'share.expiryLabel': 'انتهاء صلاحية الرابط',
+  'share.expiry.never': 'أبدًا',
+  'share.expiry.days': {
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'share.expiry.neverExpires': 'لا تنتهي صلاحيته',
+  'share.expiry.expires': 'تنتهي صلاحيته {date}',
+  'share.create': 'إنشاء رابط',
+  'share.creating': 'جارٍ الإنشاء...',
+  'share.noLinks': 'لا توجد روابط نشطة لهذه الملاحظة.',
+  'share.allLinks': 'كل الروابط المشتركة',
+  'share.toast.copied': 'تم نسخ الرابط',
+  'share.toast.copyFailed': 'تعذّر نسخ الرابط',
+  'share.toast.loadFailed': 'فشل تحميل روابط المشاركة',
+  'share.toast.createFailed': 'فشل إنشاء رابط المشاركة',
+  'share.copy': 'نسخ الرابط',
+  'share.revoke': 'إلغاء',
+  'share.revoking': 'جارٍ الإلغاء...',
+  'share.revokeConfirm': 'هل تريد إلغاء هذا الرابط؟ سيفقد كل من يستخدمه الوصول إلى الملاحظة.',
+  'share.toast.revoked': 'تم إلغاء الرابط',
+  'share.toast.revokeFailed': 'فشل إلغاء الرابط',
+  'sharedLinks.title': 'الروابط المشتركة',
+  'sharedLinks.description': 'تتيح هذه الروابط لأي شخص قراءة ملاحظة دون تسجيل الدخول. ألغِ الرابط لإيقاف مشاركتها.',
+  'sharedLinks.empty': 'لم تشارك أي ملاحظات.',
+  'sharedNote.title': 'ملاحظة مشتركة',
+  'sharedNote.readOnly': 'للقراءة فقط',
+  'sharedNote.unavailable': 'انتهت صلاحية هذا الرابط أو تم إلغاؤه.',
+  'sharedNote.loadFailed': 'فشل تحميل الملاحظة المشتركة',
+  'sharedNote.ownNotes': 'هل تريد ملاحظاتك الخاصة؟',
+
+  // Keyboard shortcuts and command palette
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.group.anywhere': 'في أي مكان',
+  'shortcuts.group.noteList': 'قائمة الملاحظات',
+  'shortcuts.openPalette': 'فتح لوحة الأوامر',
+  'shortcuts.showHelp': 'عرض اختصارات لوحة المفاتيح',
+  'shortcuts.signOut': 'تسجيل الخروج',
+  'shortcuts.signOutConfirm': 'هل تريد تسجيل الخروج؟',
+  'shortcuts.newNote': 'ملاحظة جديدة',
+  'shortcuts.search': 'البحث في الملاحظات',
+  'shortcuts.next': 'تحديد الملاحظة التالية',
+  'shortcuts.previous': 'تحديد الملاحظة السابقة',
+  'shortcuts.open': 'فتح الملاحظة المحددة',
+  'shortcuts.delete': 'حذف الملاحظة المحددة',
+  'shortcuts.clearSelection': 'مسح التحديد',
+  'palette.label': 'لوحة الأوامر',
+  'palette.placeholder': 'اكتب أمرًا أو عنوان ملاحظة',
+  'palette.searchLabel': 'البحث في الأوامر والملاحظات',
+  'palette.noResults': 'لا توجد أوامر أو ملاحظات مطابقة.',
+  'palette.goToNotes': 'الانتقال إلى الملاحظات',
+  'palette.goToArchive': 'الانتقال إلى الأرشيف',
+  'palette.goToTrash': 'الانتقال إلى المهملات',
+  'palette.manageTags': 'إدارة الوسوم',
+  'palette.importNotes': 'استيراد الملاحظات',
+  'palette.sharedLinks': 'الروابط المشتركة',
+  'palette.settings': 'إعدادات الحساب',
+
+  // Settings
+  'settings.title': 'إعدادات الحساب',
+  'settings.profile': 'الملف الشخصي',
+  'settings.saveChanges': 'حفظ التغييرات',
+  'settings.email.change': 'تغيير البريد الإلكتروني',
+  'settings.email.new': 'البريد الإلكتروني الجديد',
+  'settings.email.newPlaceholder': 'أدخل بريدك الإلكتروني الجديد',
+  'settings.email.hint': 'سنرسل رمزًا إلى العنوان الجديد. لن يتغير بريدك الإلكتروني إلا بعد إدخاله.',
+  'settings.email.sendCode': 'إرسال الرمز',
+  'settings.email.useDifferent': 'استخدام بريد إلكتروني آخر',
+  'settings.email.same': 'هذا هو بريدك الإلكتروني الحالي',
+  'settings.appearance': 'المظهر',
+  'settings.theme': 'السمة',
+  'settings.systemHint': 'يتبع خيار النظام إعداد الوضع الفاتح أو الداكن في جهازك.',
+  'settings.accent': 'لون التمييز',
+  'settings.sharing.description': 'اطّلع على كل الروابط العامة لملاحظاتك وألغِ ما لم تعد بحاجة إليه.',
+  'settings.sharing.manage': 'إدارة الروابط المشتركة',
+  'settings.toast.profileUpdated': 'تم تحديث الملف الشخصي',
+  'settings.toast.profileFailed': 'فشل تحديث الملف الشخصي',
+  'settings.toast.otpSent': 'تم إرسال رمز التحقق إلى {email}',
+  'settings.toast.emailChanged': 'بريدك الإلكتروني الآن {email}',
+
+  // Language and theme
+  'language.label': 'اللغة',
+  'theme.light': 'فاتح',
+  'theme.dark': 'داكن',
+  'theme.system': 'النظام',
+  'theme.toggle': 'السمة: {current}. انقر للتبديل إلى {next}',
+  'theme.accent.blue': 'أزرق',
+  'theme.accent.violet': 'بنفسجي',
+  'theme.accent.emerald': 'زمردي',
+  'theme.accent.rose': 'وردي',
+};
@@ -0,0 +1,517 @@
+// English is the source language: every other catalog must define the same
+// keys. {name} placeholders are filled by t(); messages given as plural forms
+// are chosen by the `count` param.
+export const en = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.done': 'Done',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.close': 'Close',
+  'common.backToNotes': 'Back to notes',
+  'common.signOut': 'Sign Out',
+  'common.loggedOut': 'Logged out successfully!',
+  'common.untitled': 'Untitled',
+  'common.undo': 'Undo',
+  'common.loading': 'Loading...',
+
+  // Validation
+  'validation.email.required': 'Email is required',
+  'validation.email.invalid': 'Please provide a valid email address',
+  'validation.password.required': 'Password is required',
+  'validation.password.minLength': 'Password must be at least 8 characters',
+  'validation.password.pattern': 'Password must contain uppercase, lowercase, number, and special character',
+  'validation.name.required': 'Name is required',
+  'validation.name.minLength': 'Name must be at least 2 characters',
+  'validation.name.maxLength': 'Name must be less than 50 characters',
+  'validation.name.pattern': 'Name can only contain letters and spaces',
+  'validation.dateOfBirth.invalid': 'Please provide a valid date of birth',
+  'validation.dateOfBirth.future': 'Date of birth cannot be in the future',
+  'validation.otp.required': 'OTP is required',
+  'validation.otp.length': 'OTP must be exactly {length} digits',
+  'validation.otp.numeric': 'OTP must contain only numbers',
+  'validation.terms.required': 'You must agree to the terms and conditions',
+
+  // API errors
+  'apiError.NETWORK_ERROR': 'Unable to reach the server. Please check your connection.',
+  'apiError.CANCELLED': 'The request was cancelled',
+  'apiError.BAD_REQUEST': 'The request was invalid',
+  'apiError.VALIDATION_ERROR': 'Please check the highlighted fields',
+  'apiError.UNAUTHORIZED': 'Your session has expired. Please sign in again.',
+  'apiError.FORBIDDEN': 'You do not have permission to do that',
+  'apiError.NOT_FOUND': 'The requested item could not be found',
+  'apiError.CONFLICT': 'This item was changed by someone else',
+  'apiError.RATE_LIMITED': 'Too many requests. Please try again later.',
+  'apiError.SERVER_ERROR': 'Something went wrong on our side. Please try again.',
+  'apiError.INVALID_RESPONSE': 'Received an unexpected response from the server',
+  'apiError.UNKNOWN': 'Something went wrong. Please try again.',
+
+  // Sign in and sign up
+  'auth.signUpLink': 'Sign up',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.getOtp': 'Get OTP',
+  'auth.sendingOtp': 'Sending OTP...',
+  'auth.signInLink': 'Sign in',
+  'auth.signInWith': 'Sign in with {provider}',
+  'auth.toast.signedOutInOtherTab': 'You signed out in another tab.',
+  'auth.toast.signedOutIdle': 'You were signed out after a period of inactivity.',
+  'signIn.title': 'Sign in',
+  'signIn.subtitle': 'Welcome back! Please sign in to your account',
+  'signIn.rememberMe': 'Keep me logged in',
+  'signIn.noAccount': "Don't have an account?",
+  'signIn.back': 'Back to Sign In',
+  'signIn.toast.enterOtp': 'Enter the OTP we sent to your email',
+  'signIn.toast.otpSent': 'OTP sent to your email for login verification',
+  'signIn.toast.failed': 'Login failed',
+  'signUp.title': 'Sign up',
+  'signUp.subtitle': 'Create your account to get started',
+  'signUp.agreeTo': 'I agree to the',
+  'signUp.terms': 'terms and conditions',
+  'signUp.creating': 'Creating account...',
+  'signUp.haveAccount': 'Already have an account?',
+  'signUp.existsHint': 'If you\'re getting "email already exists" error, try signing in instead.',
+  'signUp.back': 'Back to Sign Up',
+  'signUp.toast.registered': 'Registration successful! Please check your email for OTP verification.',
+  'signUp.toast.emailExists': 'This email is already registered. Please use a different email or try signing in instead.',
+  'signUp.toast.failed': 'Registration failed',
+  'profile.name': 'Your Name',
+  'profile.namePlaceholder': 'Enter your name',
+  'profile.dateOfBirth': 'Date of Birth',
+
+  // One-time codes
+  'otp.label': 'OTP Code',
+  'otp.seconds': '{seconds}s',
+  'otp.limitReached': 'OTP limit reached, try again in {time}',
+  'otp.resendIn': 'Resend OTP in {time}',
+  'otp.resend': 'Resend OTP',
+  'otp.sending': 'Sending...',
+  'otp.verify': 'Verify OTP',
+  'otp.verifying': 'Verifying...',
+  'otp.toast.verifyFailed': 'OTP verification failed',
+  'otp.toast.tooManyRequests': 'Too many OTP requests. Please try again later.',
+  'otp.toast.wait': {
+    one: 'Please wait {count} second before requesting another OTP',
+    other: 'Please wait {count} seconds before requesting another OTP',
+  },
+  'otp.toast.sentToEmail': 'OTP sent to your email',
+  'otp.toast.sendFailed': 'Failed to send OTP',
+  'otp.title': 'Verify OTP',
+  'otp.sentTo': 'Enter the OTP sent to {email}',
+  'otp.toast.verified': 'Email verified successfully!',
+  'otp.digit': 'Digit {index}',
+  'otp.group': 'One-time code',
+
+  // Identity provider sign-in
+  'oauth.access_denied': 'Sign-in was cancelled.',
+  'oauth.consent_required': 'Please allow access to continue signing in.',
+  'oauth.interaction_required': 'The provider needs more information before you can sign in.',
+  'oauth.login_required': 'Please sign in with the provider to continue.',
+  'oauth.temporarily_unavailable': 'The sign-in provider is temporarily unavailable. Please try again later.',
+  'oauth.server_error': 'The sign-in provider ran into a problem. Please try again later.',
+  'oauth.failed': 'Sign-in with the provider failed.',
+  'authCallback.completing': 'Completing sign-in...',
+  'authCallback.failed': 'Sign-in failed',
+  'authCallback.invalidLink': 'This sign-in link is invalid or has expired. Please try again.',
+  'authCallback.noCode': 'The sign-in provider did not return a sign-in code. Please try again.',
+  'authCallback.signedInWith': 'Signed in with {provider}',
+  'authCallback.failedToComplete': 'Could not complete sign-in. Please try again.',
+
+  // Idle sign-out
+  'idle.title': "You'll be signed out soon",
+  'idle.description': "You've been inactive for a while. For your security you'll be signed out in",
+  'idle.seconds': { one: '{count} second.', other: '{count} seconds.' },
+  'idle.signOut': 'Sign out',
+  'idle.stay': 'Stay signed in',
+
+  // Welcome page
+  'welcome.title': 'Welcome',
+  'welcome.greeting': 'Welcome, {name}!',
+  'welcome.subtitle': 'You have successfully signed up and logged in to Highway Notes',
+  'welcome.yourInformation': 'Your Information',
+  'welcome.editProfile': 'Edit profile',
+  'welcome.fullName': 'Full Name',
+  'welcome.emailAddress': 'Email Address',
+  'welcome.accountStatus': 'Account Status',
+  'welcome.verified': 'Verified',
+  'welcome.goToDashboard': 'Go to Dashboard',
+  'welcome.createFirstNote': 'Create Your First Note',
+  'welcome.feature.auth.title': 'Secure Authentication',
+  'welcome.feature.auth.body': 'Your account is protected with OTP-based authentication and Google OAuth.',
+  'welcome.feature.email.title': 'Email Verification',
+  'welcome.feature.email.body': 'Your email has been verified and you can now access all features.',
+  'welcome.feature.profile.title': 'Personal Profile',
+  'welcome.feature.profile.body': 'Your profile information is securely stored and ready to use.',
+
+  // Not found
+  'notFound.title': 'Page not found',
+  'notFound.description': "The page you're looking for doesn't exist or has been moved.",
+  'notFound.backToNotes': 'Back to your notes',
+  'notFound.goToSignIn': 'Go to sign in',
+
+  // Dashboard
+  'dashboard.title': 'Dashboard',
+  'dashboard.email': 'Email: {email}',
+  'dashboard.offline': "You're offline. Changes will sync when you reconnect.",
+  'dashboard.createNote': 'Create Note',
+  'dashboard.createTitle': 'Create New Note',
+  'dashboard.unsentDrafts': { one: 'You have {count} unsent draft', other: 'You have {count} unsent drafts' },
+  'dashboard.unsentDraftsTitle': 'Unsent drafts',
+  'dashboard.discardConfirm': 'Discard this note? Your draft will be deleted.',
+  'dashboard.tab.notes': 'Notes',
+  'dashboard.tab.archive': 'Archive',
+  'dashboard.tab.trash': 'Trash',
+  'dashboard.empty.notes': 'No notes yet. Create your first note!',
+  'dashboard.empty.archive': 'No archived notes.',
+  'dashboard.empty.trash': 'Trash is empty.',
+  'dashboard.import': 'Import',
+  'dashboard.export': 'Export',
+  'dashboard.exportNotes': 'Export notes',
+  'dashboard.selectToExport': 'Select notes to export',
+  'dashboard.selected': '{count} selected',
+  'dashboard.exportSelected': 'Export selected',
+  'dashboard.exportAll': 'Export all',
+  'dashboard.emptyTrash': 'Empty trash',
+  'dashboard.emptyTrashConfirm': {
+    one: 'Permanently delete the note in the trash? This cannot be undone.',
+    other: 'Permanently delete all {count} notes in the trash? This cannot be undone.',
+  },
+  'dashboard.trashRetention': {
+    one: 'Notes in the trash are deleted forever after {count} day.',
+    other: 'Notes in the trash are deleted forever after {count} days.',
+  },
+  'dashboard.checkOlder': 'Check older notes',
+  'dashboard.noMatches': 'No notes match your search.',
+  'dashboard.clearFilters': 'Clear filters',
+  'dashboard.matchCount': { one: '{count} matching note', other: '{count} matching notes' },
+  'dashboard.matchCountOf': { one: '{shown} of {count} note', other: '{shown} of {count} notes' },
+  'dashboard.toast.searchFailed': 'Failed to search notes',
+  'dashboard.toast.fillAllFields': 'Please fill in all fields',
+  'dashboard.toast.created': 'Note created successfully!',
+  'dashboard.toast.createdOffline': 'Note saved offline. It will sync when you reconnect.',
+  'dashboard.toast.createFailed': 'Failed to create note',
+  'dashboard.toast.trashEmptied': 'Trash emptied',
+  'dashboard.toast.emptyTrashFailed': 'Failed to empty trash',
+  'dashboard.toast.emptyTrashOffline': 'Not every note is loaded, so emptying the trash needs a connection',
+  'dashboard.toast.trashAlreadyEmpty': 'The trash is already empty',
+  'dashboard.toast.exportLoadFailed': 'Failed to load notes for export',
+
+  // Notes
+  'note.lastUpdated': 'Last updated {date}',
+  'note.archived': 'Archived',
+  'note.titleLabel': 'Title',
+  'note.titlePlaceholder': 'Enter note title',
+  'note.contentLabel': 'Content',
+  'note.contentPlaceholder': 'Enter note content (Markdown supported)',
+  'note.tagsLabel': 'Tags',
+  'note.deleteForeverConfirm': 'Permanently delete "{title}"? This cannot be undone.',
+  'note.toast.updateFailed': 'Failed to update note',
+  'note.toast.archived': 'Note archived',
+  'note.toast.unarchived': 'Note moved back to your notes',
+  'note.toast.restored': 'Note restored',
+  'note.toast.restoreFailed': 'Failed to restore note',
+  'note.toast.trashed': 'Note moved to trash',
+  'note.toast.deleteFailed': 'Failed to delete note',
+  'note.toast.deletedForever': 'Note deleted forever',
+  'notes.toast.fetchFailed': 'Failed to fetch notes',
+  'notes.toast.loadMoreFailed': 'Failed to load more notes',
+  'notes.toast.syncFailed': 'Failed to sync note',
+  'notes.toast.keptAfterDelete': '"{title}" changed on the server after you deleted it, so it was kept.',
+  'notes.toast.createRolledBack': '"{title}" couldn\'t be saved and was removed. {reason}',
+  'notes.toast.updateRolledBack': 'Your changes to "{title}" were undone. {reason}',
+  'notes.toast.deleteRolledBack': '"{title}" couldn\'t be deleted and was restored. {reason}',
+  'notes.signOutUnsyncedConfirm': {
+    one: '1 note has changes that haven\'t synced yet. Signing out removes them from this device. Sign out anyway?',
+    other: '{count} notes have changes that haven\'t synced yet. Signing out removes them from this device. Sign out anyway?',
+  },
+
+  // Note cards
+  'noteCard.select': 'Select "{title}"',
+  'noteCard.pinned': 'Pinned',
+  'noteCard.pin': 'Pin note',
+  'noteCard.unpin': 'Unpin note',
+  'noteCard.archive': 'Archive note',
+  'noteCard.unarchive': 'Unarchive note',
+  'noteCard.restore': 'Restore note',
+  'noteCard.deleteForever': 'Delete forever',
+  'noteCard.trash': 'Move to trash',
+  'noteCard.retry': 'Retry',
+  'noteCard.discardChanges': 'Discard changes',
+  'noteCard.purgeIn': { one: 'Deleted forever in {count} day', other: 'Deleted forever in {count} days' },
+  'noteCard.attachments': { one: '{count} attachment', other: '{count} attachments' },
+  'sync.pending': 'Pending',
+  'sync.synced': 'Synced',
+  'sync.failed': 'Failed',
+  'sync.pendingTitle': 'Sync status: pending',
+  'sync.syncedTitle': 'Sync status: synced',
+  'sync.failedTitle': 'Sync status: failed',
+
+  // Note page
+  'noteDetail.allNotes': 'All notes',
+  'noteDetail.share': 'Share',
+  'noteDetail.history': 'History',
+  'noteDetail.shareUnsynced': 'Available once the note has synced',
+  'noteDetail.availableAfterSync': 'Available once the note has synced',
+  'noteDetail.notFound': 'This note could not be found.',
+  'noteDetail.loadFailed': 'This note could not be loaded.',
+  'noteDetail.tryAgain': 'Try again',
+  'noteDetail.editTitle': 'Edit Note',
+  'noteDetail.draftFound': 'You have unsaved changes from {date}.',
+  'noteDetail.draftOutdated': 'This note was updated after your draft from {date}.',
+  'noteDetail.compare': 'Compare',
+  'noteDetail.continueEditing': 'Continue editing',
+  'noteDetail.inTrash': {
+    one: 'In trash. Deleted forever in {count} day.',
+    other: 'In trash. Deleted forever in {count} days.',
+  },
+  'noteDetail.archived': 'This note is archived.',
+  'noteDetail.unarchive': 'Unarchive',
+  'noteDetail.unsavedChangesConfirm': 'You have unsaved changes. Are you sure you want to leave?',
+  'noteDetail.toast.updated': 'Note updated successfully!',
+
+  // Drafts
+  'drafts.saved': 'Saved {date}',
+  'drafts.restore': 'Restore',
+  'drafts.discard': 'Discard',
+  'draftConflict.title': 'This note changed since your draft',
+  'draftConflict.description': 'Lines only in the saved note are shown in red, lines only in your draft in green.',
+  'draftConflict.keepSaved': 'Keep saved version',
+  'draftConflict.keepDraft': 'Keep my draft',
+
+  // Version history
+  'history.title': 'Version history',
+  'history.description': 'A version is saved every time this note changes. Restoring one saves it as a new version, so nothing is lost.',
+  'history.empty': 'No earlier versions yet.',
+  'history.versions': 'Saved versions',
+  'history.current': 'Current',
+  'history.currentOption': '{date} (current)',
+  'history.compareWith': 'Compare with',
+  'history.legend': 'Red lines are only in the version from {older}, green lines only in the one from {newer}.',
+  'history.restore': 'Restore this version',
+  'history.restoring': 'Restoring...',
+  'history.toast.loadFailed': 'Failed to load version history',
+  'history.toast.restored': 'Restored the version from {date}',
+
+  // Attachments
+  'attachments.title': 'Attachments',
+  'attachments.dropHint': 'Drop files here, paste them, or',
+  'attachments.choose': 'choose files',
+  'attachments.dropping': 'Drop to attach',
+  'attachments.limits': {
+    one: 'Images, PDFs, text and ZIP files up to {size}, {count} file per note.',
+    other: 'Images, PDFs, text and ZIP files up to {size}, {count} files per note.',
+  },
+  'attachments.offline': 'Reconnect to add or remove attachments.',
+  'attachments.uploading': 'Uploading {name}',
+  'attachments.cancelUpload': 'Cancel upload of {name}',
+  'attachments.remove': 'Remove {name}',
+  'attachments.removeConfirm': 'Remove "{name}" from this note? The file will be deleted.',
+  'attachments.error.type': '"{name}" is not a supported file type',
+  'attachments.error.size': '"{name}" is larger than {size}',
+  'attachments.error.empty': '"{name}" is empty',
+  'attachments.error.tooMany': {
+    one: 'A note can have at most {count} attachment',
+    other: 'A note can have at most {count} attachments',
+  },
+  'attachments.toast.uploadFailed': 'Failed to upload "{name}"',
+  'attachments.toast.removed': 'Removed "{name}"',
+  'attachments.toast.removeFailed': 'Failed to remove "{name}"',
+
+  // Markdown editor
+  'editor.bold': 'Bold',
+  'editor.italic': 'Italic',
+  'editor.heading': 'Heading',
+  'editor.bulletedList': 'Bulleted list',
+  'editor.numberedList': 'Numbered list',
+  'editor.code': 'Code',
+  'editor.link': 'Link',
+  'editor.placeholder.bold': 'bold text',
+  'editor.placeholder.italic': 'italic text',
+  'editor.placeholder.code': 'code',
+  'editor.placeholder.link': 'link text',
+  'editor.write': 'Write',
+  'editor.preview': 'Preview',
+  'editor.nothingToPreview': 'Nothing to preview',
+
+  // Search
+  'search.placeholder': 'Search notes',
+  'search.filterByDate': 'Filter by date',
+  'search.dateField': 'Date to filter on',
+  'search.created': 'Created',
+  'search.updated': 'Updated',
+  'search.clearDates': 'Clear dates',
+  'search.from': 'From',
+  'search.to': 'To',
+
+  // Tags
+  'tags.add': 'Add tags',
+  'tags.limit': { one: 'Up to {count} tag', other: 'Up to {count} tags' },
+  'tags.remove': 'Remove tag {tag}',
+  'tags.matchMode': 'Tag match mode',
+  'tags.matchAny': 'Match any',
+  'tags.matchAll': 'Match all',
+  'tags.clear': 'Clear',
+  'tags.manage': 'Manage',
+  'tagManager.title': 'Manage Tags',
+  'tagManager.description': 'Renaming a tag updates every note that uses it. Renaming to an existing tag merges the two.',
+  'tagManager.empty': 'No tags yet. Add tags when creating a note.',
+  'tagManager.newName': 'New name for {tag}',
+  'tagManager.rename': 'Rename or merge tag',
+  'tagManager.partialCounts': 'Counts only include the notes loaded so far.',
+  'tagManager.renameOffline': 'Not every note is loaded, so renaming and merging tags need a connection.',
+  'tagManager.noteCount': { one: '{count} note', other: '{count} notes' },
+  'tagManager.mergeConfirm': '"{to}" already exists. Merge "{from}" into it?',
+  'tagManager.toast.emptyName': 'Tag name cannot be empty',
+  'tagManager.toast.merged': {
+    one: 'Merged "{from}" into "{to}" on {count} note',
+    other: 'Merged "{from}" into "{to}" on {count} notes',
+  },
+  'tagManager.toast.renamed': {
+    one: 'Renamed "{from}" to "{to}" on {count} note',
+    other: 'Renamed "{from}" to "{to}" on {count} notes',
+  },
+  'tagManager.toast.renameFailed': 'Failed to rename tag',
+
+  // Import and export
+  'import.title': 'Import Notes',
+  'import.choose': 'Choose files to import',
+  'import.reading': 'Reading files...',
+  'import.formats': 'Markdown, plain text, JSON or ZIP archives',
+  'import.errors': 'Some files could not be imported:',
+  'import.selected': { one: '{selected} of {count} note selected', other: '{selected} of {count} notes selected' },
+  'import.problem.existing': 'Already in your notes',
+  'import.problem.repeated': 'Duplicate in this import',
+  'import.problem.empty': 'Empty note',
+  'import.partialCheck': 'Only the notes loaded so far were checked for duplicates. Reconnect and choose the files again to check them all.',
+  'import.progress': 'Importing {done} of {total}...',
+  'import.importing': 'Importing...',
+  'import.submit': { one: 'Import {count} note', other: 'Import {count} notes' },
+  'import.error.invalidJson': 'invalid JSON',
+  'import.error.notAnExport': 'not a notes export',
+  'import.error.unsupported': 'unsupported file type',
+  'import.error.unreadable': 'could not be read',
+  'import.error.tooLarge': 'larger than {size}',
+  'import.error.unpackedTooLarge': {
+    one: '{count} file skipped, the archive unpacks to more than {size}',
+    other: '{count} files skipped, the archive unpacks to more than {size}',
+  },
+  'import.toast.noneFound': 'No notes found in the selected files',
+  'import.toast.readFailed': 'The files could not be read',
+  'import.toast.partial': {
+    one: 'Imported {imported} of {count} note. {failed} could not be saved. {reason}',
+    other: 'Imported {imported} of {count} notes. {failed} could not be saved. {reason}',
+  },
+  'import.toast.imported': { one: 'Imported {count} note', other: 'Imported {count} notes' },
+  'import.toast.importedOffline': {
+    one: 'Imported {count} note offline. It will sync when you reconnect.',
+    other: 'Imported {count} notes offline. They will sync when you reconnect.',
+  },
+  'export.title': { one: 'Export note', other: 'Export {count} notes' },
+  'export.format': 'Format',
+  'export.markdownDescription': 'One .md file per note, with title and dates in front-matter',
+  'export.jsonDescription': 'A single file holding every note',
+  'export.zip': 'Download as a ZIP archive',
+  'export.failed': 'Failed to export notes',
+
+  // Share links
+  'share.title': 'Share note',
+  'share.description': "Anyone with the link can read this note without signing in. They can't edit it.",
+  'share.expiryLabel': 'Link expires',
+  'share.expiry.never': 'Never',
+  'share.expiry.days': { one: '{count} day', other: '{count} days' },
+  'share.expiry.neverExpires': 'Never expires',
+  'share.expiry.expires': 'Expires {date}',
+  'share.create': 'Create link',
+  'share.creating': 'Creating...',
+  'share.noLinks': 'No active links for this note.',
+  'share.allLinks': 'All shared links',
+  'share.toast.copied': 'Link copied',
+  'share.toast.copyFailed': 'Could not copy the link',
+  'share.toast.loadFailed': 'Failed to load share links',
+  'share.toast.createFailed': 'Failed to create share link',
+  'share.copy': 'Copy link',
+  'share.revoke': 'Revoke',
+  'share.revoking': 'Revoking...',
+  'share.revokeConfirm': 'Revoke this link? Anyone using it will lose access to the note.',
+  'share.toast.revoked': 'Link revoked',
+  'share.toast.revokeFailed': 'Failed to revoke link',
+  'sharedLinks.title': 'Shared Links',
+  'sharedLinks.description': 'These links let anyone read a note without signing in. Revoke a link to stop sharing it.',
+  'sharedLinks.empty': "You haven't shared any notes.",
+  'sharedNote.title': 'Shared Note',
+  'sharedNote.readOnly': 'Read only',
+  'sharedNote.unavailable': 'This link has expired or was revoked.',
+  'sharedNote.loadFailed': 'Failed to load the shared note',
+  'sharedNote.ownNotes': 'Want your own notes?',
+
+  // Keyboard shortcuts and command palette
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.group.anywhere': 'Anywhere',
+  'shortcuts.group.noteList': 'Note list',
+  'shortcuts.openPalette': 'Open the command palette',
+  'shortcuts.showHelp': 'Show keyboard shortcuts',
+  'shortcuts.signOut': 'Sign out',
+  'shortcuts.signOutConfirm': 'Sign out?',
+  'shortcuts.newNote': 'New note',
+  'shortcuts.search': 'Search notes',
+  'shortcuts.next': 'Select next note',
+  'shortcuts.previous': 'Select previous note',
+  'shortcuts.open': 'Open selected note',
+  'shortcuts.delete': 'Delete selected note',
+  'shortcuts.clearSelection': 'Clear selection',
+  'palette.label': 'Command palette',
+  'palette.placeholder': 'Type a command or note title',
+  'palette.searchLabel': 'Search commands and notes',
+  'palette.noResults': 'No matching commands or notes.',
+  'palette.goToNotes': 'Go to notes',
+  'palette.goToArchive': 'Go to archive',
+  'palette.goToTrash': 'Go to trash',
+  'palette.manageTags': 'Manage tags',
+  'palette.importNotes': 'Import notes',
+  'palette.sharedLinks': 'Shared links',
+  'palette.settings': 'Account settings',
+
+  // Settings
+  'settings.title': 'Account Settings',
+  'settings.profile': 'Profile',
+  'settings.saveChanges': 'Save changes',
+  'settings.email.change': 'Change email',
+  'settings.email.new': 'New email',
+  'settings.email.newPlaceholder': 'Enter your new email',
+  'settings.email.hint': "We'll send a code to the new address. Your email only changes once you enter it.",
+  'settings.email.sendCode': 'Send code',
+  'settings.email.useDifferent': 'Use a different email',
+  'settings.email.same': 'This is already your email address',
+  'settings.appearance': 'Appearance',
+  'settings.theme': 'Theme',
+  'settings.systemHint': "System follows your device's light or dark setting.",
+  'settings.accent': 'Accent color',
+  'settings.sharing.description': 'See every public link to your notes and revoke the ones you no longer need.',
+  'settings.sharing.manage': 'Manage shared links',
+  'settings.toast.profileUpdated': 'Profile updated',
+  'settings.toast.profileFailed': 'Failed to update profile',
+  'settings.toast.otpSent': 'OTP sent to {email}',
+  'settings.toast.emailChanged': 'Your email is now {email}',
+
+  // Language and theme
+  'language.label': 'Language',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'theme.toggle': 'Theme: {current}. Click for {next}',
+  'theme.accent.blue': 'Blue',
+  'theme.accent.violet': 'Violet',
+  'theme.accent.emerald': 'Emerald',
+  'theme.accent.rose': 'Rose',
+};
+
+export type MessageKey = keyof typeof en;
+
+// At least `other`, plus whichever CLDR forms (one, two, few, ...) the language uses
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export type Messages = {
+  [K in MessageKey]: (typeof en)[K] extends string ? string : PluralMessage;
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { auth } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import { clearSession, setTokens } from '../utils/authSession';
+import { consumeOAuthAttempt, describeOAuthError, getOAuthRedirectUri } from '../utils/oauth';
+import { findIdentityProvider } from '../config/authProviders';
+
+// Landing page for identity provider redirects, see utils/oauth
+const AuthCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { login } = useAuth();
+  const { t } = useLocale();
+  const [error, setError] = useState<string | null>(null);
+  // The state can only be consumed once, so ignore StrictMode's second run
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const completeSignIn = async () => {
+      const attempt = consumeOAuthAttempt(searchParams.get('state'));
+
+      const providerError = searchParams.get('error');
+      if (providerError) {
+        setError(describeOAuthError(providerError, searchParams.get('error_description')));
+        return;
+      }
+      if (!attempt) {
+        setError(t('authCallback.invalidLink'));
+        return;
+      }
+
+      try {
+        const code = searchParams.get('code');
+        const token = searchParams.get('token');
+        let session;
+
+        if (code) {
+          session = await auth.exchangeOAuthCode(attempt.provider, code, getOAuthRedirectUri());
+        } else if (token) {
+          // Older API versions put the tokens in the URL; the user still has to be loaded
+          const refreshToken = searchParams.get('refreshToken') ?? undefined;
+          setTokens(token, refreshToken);
+          session = { token, refreshToken, user: await auth.me() };
+        } else {
+          setError(t('authCallback.noCode'));
+          return;
+        }
+
+        login(session.token, session.user, { refreshToken: session.refreshToken, remember: attempt.remember });
+        toast.success(t('authCallback.signedInWith', { provider: findIdentityProvider(attempt.provider)?.name ?? attempt.provider }));
+        navigate(attempt.returnTo, { replace: true });
+      } catch (err) {
+        clearSession();
+        setError(getErrorMessage(err, t('authCallback.failedToComplete')));
+      }
+    };
+
+    completeSignIn();
+  }, [searchParams, navigate, login, t]);
+
+  if (!error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        <p className="text-sm text-gray-600">{t('authCallback.completing')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white rounded-lg shadow-sm border p-6 text-center">
+        <AlertCircle className="h-10 w-10 text-red-500 mx-auto mb-3" />
+        <h1 className="text-lg font-semibold text-gray-900">{t('authCallback.failed')}</h1>
+        <p className="mt-2 text-sm text-gray-600">{error}</p>
+        <Link
+          to="/signin"
+          replace
+          className="mt-6 inline-flex justify-center w-full py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+        >
+          {t('signIn.back')}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -1,87 +1,409 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Link, NavLink, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Trash2 } from 'lucide-react';
+import { useLocale } from '../contexts/LocaleContext';
+import { Download, Upload, WifiOff } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { api } from '../utils/api';
-
-interface Note {
-  _id: string;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
+import { notes as notesApi } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import type { Note, NoteInput } from '../types/note';
+import { useNotes } from '../contexts/NotesContext';
+import { NoteSearchBar } from '../components/NoteSearchBar';
+import { NoteCard } from '../components/NoteCard';
+import { VirtualNoteList } from '../components/VirtualNoteList';
+import { ExportDialog } from '../components/ExportDialog';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { TagInput } from '../components/TagInput';
+import { TagFilter } from '../components/TagFilter';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { collectTags } from '../utils/tags';
+import type { TagMatchMode } from '../utils/tags';
+import { selectNotesForView, TRASH_RETENTION_DAYS } from '../utils/notes';
+import type { NoteView } from '../utils/notes';
+import { useDebounce } from '../hooks/useDebounce';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { useHotkeys } from '../hooks/useHotkeys';
+import type { NoteListCommand } from '../utils/shortcuts';
+import { formatDate } from '../utils/i18n';
+import type { MessageKey } from '../locales/en';
+import { deleteDraft, isDraftEmpty, listNewNoteDrafts, newDraftKey } from '../utils/drafts';
+import type { NoteDraft } from '../utils/drafts';
+import { filterNotes, filtersToParams, getSearchTerms, hasActiveFilters, parseFilters } from '../utils/search';
+import type { NoteFilters } from '../utils/search';
+
+// Accounts with more notes than this (or more than are loaded) search on the server via /notes?q=
+const SERVER_SEARCH_THRESHOLD = 200;
+const EXPORT_PAGE_SIZE = 100;
+
+const viewTabs: { view: NoteView; label: MessageKey; path: string }[] = [
+  { view: 'notes', label: 'dashboard.tab.notes', path: '/dashboard' },
+  { view: 'archive', label: 'dashboard.tab.archive', path: '/archive' },
+  { view: 'trash', label: 'dashboard.tab.trash', path: '/trash' }
+];
+
+const emptyMessages: Record<NoteView, MessageKey> = {
+  notes: 'dashboard.empty.notes',
+  archive: 'dashboard.empty.archive',
+  trash: 'dashboard.empty.trash'
+};
+
+interface DashboardProps {
+  view?: NoteView;
 }
 
-const Dashboard: React.FC = () => {
-  const { user, logout } = useAuth();
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+const Dashboard: React.FC<DashboardProps> = ({ view = 'notes' }) => {
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const {
+    notes,
+    isLoading,
+    isOnline,
+    hasMore,
+    isLoadingMore,
+    loadMoreNotes,
+    createNote,
+    updateNote,
+    deleteNote,
+    retrySync,
+    discardChanges,
+    getSyncStatus,
+    fetchUnloadedNotes,
+    signOut
+  } = useNotes();
   const [showCreateForm, setShowCreateForm] = useState(false);
-  // Removed editingNote state to match design
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<NoteInput>({
     title: '',
-    content: ''
+    content: '',
+    tags: []
   });
+  // The draft the create form is autosaving to, and the other unsent ones
+  const [draftKey, setDraftKey] = useState<string | null>(null);
+  const [otherDrafts, setOtherDrafts] = useState<NoteDraft[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // The note keyboard shortcuts act on
+  const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
+  const [serverResults, setServerResults] = useState<Note[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [notesToExport, setNotesToExport] = useState<Note[] | null>(null);
+  const [isGatheringExport, setIsGatheringExport] = useState(false);
+  const [isEmptyingTrash, setIsEmptyingTrash] = useState(false);
+
+  const activeDraft = useMemo(
+    () => (showCreateForm && draftKey ? { key: draftKey, noteId: null, baseUpdatedAt: null, ...formData } : null),
+    [showCreateForm, draftKey, formData]
+  );
+  const { flush: flushDraft, discard: discardDraft } = useDraftAutosave(user?.id, activeDraft);
+  const unsentDraftCount = useMemo(
+    () => (user && !showCreateForm ? listNewNoteDrafts(user.id).length : 0),
+    [user, showCreateForm]
+  );
+
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  const debouncedSearch = useDebounce(searchParams.toString(), 300);
+  const isFiltering = hasActiveFilters(filters);
+  const useServerSearch = isOnline && (hasMore || notes.length >= SERVER_SEARCH_THRESHOLD);
+  const searchTerms = useMemo(() => getSearchTerms(filters.query), [filters.query]);
+  const viewNotes = useMemo(() => selectNotesForView(notes, view), [notes, view]);
+  const tagSummaries = useMemo(
+    () => collectTags(notes.filter((note) => note.deletedAt === null)),
+    [notes]
+  );
 
   useEffect(() => {
-    fetchNotes();
-  }, []);
+    const params = new URLSearchParams(debouncedSearch);
+    params.set('view', view);
+    if (!useServerSearch || !hasActiveFilters(parseFilters(params))) {
+      setServerResults(null);
+      return;
+    }
 
-  const fetchNotes = async () => {
-    try {
-      const response = await api.get('/notes');
-      setNotes(response.data.notes);
-    } catch (error) {
-      toast.error('Failed to fetch notes');
-    } finally {
-      setIsLoading(false);
+    let cancelled = false;
+    const searchNotes = async () => {
+      setIsSearching(true);
+      try {
+        const results = await notesApi.list(Object.fromEntries(params));
+        if (!cancelled) setServerResults(results.notes);
+      } catch (error) {
+        if (!cancelled) toast.error(getErrorMessage(error, t('dashboard.toast.searchFailed')));
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    };
+
+    searchNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, [useServerSearch, debouncedSearch, view, t]);
+
+  const visibleNotes = useMemo(() => {
+    if (!isFiltering) return viewNotes;
+    if (useServerSearch) return selectNotesForView(serverResults ?? [], view);
+    return filterNotes(viewNotes, filters);
+  }, [viewNotes, view, filters, isFiltering, useServerSearch, serverResults]);
+
+  const activeIndex = visibleNotes.findIndex((note) => note._id === activeNoteId);
+  const activeNote = activeIndex === -1 ? null : visibleNotes[activeIndex];
+
+  const moveActive = (step: number) => {
+    if (visibleNotes.length === 0) return;
+    const next = activeIndex === -1
+      ? (step > 0 ? 0 : visibleNotes.length - 1)
+      : Math.min(Math.max(activeIndex + step, 0), visibleNotes.length - 1);
+    setActiveNoteId(visibleNotes[next]._id);
+  };
+
+  // Come back to the same spot in the list after opening a note
+  useScrollRestoration(location.pathname + location.search, !isLoading);
+
+  const handleFiltersChange = (next: NoteFilters) => {
+    setSearchParams(filtersToParams(next), { replace: true });
+  };
+
+  const handleTagFilterChange = (tags: string[], tagMode: TagMatchMode) => {
+    handleFiltersChange({ ...filters, tags, tagMode });
+  };
+
+  const openCreateForm = useCallback(() => {
+    if (showCreateForm) {
+      document.getElementById('title')?.focus();
+      return;
     }
+    setDraftKey(newDraftKey());
+    setFormData({ title: '', content: '', tags: [] });
+    setOtherDrafts(user ? listNewNoteDrafts(user.id) : []);
+    setShowCreateForm(true);
+  }, [showCreateForm, user]);
+
+  // Commands sent here from the palette or a shortcut on another page
+  const command = (location.state as { command?: NoteListCommand } | null)?.command;
+  useEffect(() => {
+    if (!command) return;
+    navigate(location.pathname + location.search, { replace: true, state: null });
+    if (command === 'new-note') openCreateForm();
+    else searchInputRef.current?.focus();
+  }, [command, location.pathname, location.search, navigate, openCreateForm]);
+
+  // Switching drafts keeps what's in the form as a draft of its own
+  const handleRestoreDraft = (draft: NoteDraft) => {
+    flushDraft();
+    setDraftKey(draft.key);
+    setFormData({ title: draft.title, content: draft.content, tags: draft.tags });
+    setOtherDrafts(user ? listNewNoteDrafts(user.id).filter((other) => other.key !== draft.key) : []);
+  };
+
+  const handleDiscardDraft = (draft: NoteDraft) => {
+    if (user) deleteDraft(user.id, draft.key);
+    setOtherDrafts((prev) => prev.filter((other) => other.key !== draft.key));
   };
 
   const handleCreateNote = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim() || !formData.content.trim()) {
-      toast.error('Please fill in all fields');
+      toast.error(t('dashboard.toast.fillAllFields'));
       return;
     }
 
     try {
-      const response = await api.post('/notes', formData);
-      setNotes([response.data.note, ...notes]);
-      setFormData({ title: '', content: '' });
+      await createNote(formData);
+      if (draftKey) discardDraft(draftKey);
+      setFormData({ title: '', content: '', tags: [] });
       setShowCreateForm(false);
-      toast.success('Note created successfully!');
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to create note');
+      toast.success(isOnline ? t('dashboard.toast.created') : t('dashboard.toast.createdOffline'));
+    } catch {
+      toast.error(t('dashboard.toast.createFailed'));
     }
   };
 
-  // Removed update functionality to match design
+  const handleTogglePin = async (note: Note) => {
+    try {
+      await updateNote(note._id, { isPinned: !note.isPinned });
+    } catch {
+      toast.error(t('note.toast.updateFailed'));
+    }
+  };
+
+  const handleToggleArchive = async (note: Note) => {
+    try {
+      await updateNote(note._id, { isArchived: !note.isArchived, isPinned: false });
+      toast.success(note.isArchived ? t('note.toast.unarchived') : t('note.toast.archived'));
+    } catch {
+      toast.error(t('note.toast.updateFailed'));
+    }
+  };
+
+  // Undo passes the pin that trashing cleared; restoring from the trash leaves it off
+  const handleRestoreNote = async (note: Note, isPinned = false) => {
+    try {
+      await updateNote(note._id, isPinned ? { deletedAt: null, isPinned } : { deletedAt: null });
+      toast.success(t('note.toast.restored'));
+    } catch {
+      toast.error(t('note.toast.restoreFailed'));
+    }
+  };
 
-  const handleDeleteNote = async (noteId: string) => {
-    if (!window.confirm('Are you sure you want to delete this note?')) {
+  const handleTrashNote = async (note: Note) => {
+    try {
+      await updateNote(note._id, { deletedAt: new Date().toISOString(), isPinned: false });
+      toast((item) => (
+        <span className="flex items-center space-x-3">
+          <span>{t('note.toast.trashed')}</span>
+          <button
+            onClick={() => {
+              toast.dismiss(item.id);
+              handleRestoreNote(note, note.isPinned);
+            }}
+            className="font-medium text-blue-600 hover:text-blue-500"
+          >
+            {t('common.undo')}
+          </button>
+        </span>
+      ), { duration: 6000 });
+    } catch {
+      toast.error(t('note.toast.deleteFailed'));
+    }
+  };
+
+  const handleDeleteForever = async (note: Note) => {
+    if (!window.confirm(t('note.deleteForeverConfirm', { title: note.title }))) {
       return;
     }
 
     try {
-      await api.delete(`/notes/${noteId}`);
-      setNotes(notes.filter(note => note._id !== noteId));
-      toast.success('Note deleted successfully!');
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to delete note');
+      await deleteNote(note._id);
+      toast.success(t('note.toast.deletedForever'));
+    } catch {
+      toast.error(t('note.toast.deleteFailed'));
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    // The trash may go on past the loaded pages; those notes are on the server
+    let unloaded: Note[] = [];
+    if (hasMore) {
+      if (!isOnline) {
+        toast.error(t('dashboard.toast.emptyTrashOffline'));
+        return;
+      }
+      setIsEmptyingTrash(true);
+      try {
+        unloaded = await fetchUnloadedNotes('trash');
+      } catch (error) {
+        toast.error(getErrorMessage(error, t('dashboard.toast.emptyTrashFailed')));
+        setIsEmptyingTrash(false);
+        return;
+      }
+      setIsEmptyingTrash(false);
+    }
+
+    const count = viewNotes.length + unloaded.length;
+    if (count === 0) {
+      toast.success(t('dashboard.toast.trashAlreadyEmpty'));
+      return;
     }
+    if (!window.confirm(t('dashboard.emptyTrashConfirm', { count }))) {
+      return;
+    }
+
+    setIsEmptyingTrash(true);
+    try {
+      for (const note of viewNotes) {
+        await deleteNote(note._id);
+      }
+      for (const note of unloaded) {
+        await deleteNote(note._id, note);
+      }
+      toast.success(t('dashboard.toast.trashEmptied'));
+    } catch {
+      toast.error(t('dashboard.toast.emptyTrashFailed'));
+    } finally {
+      setIsEmptyingTrash(false);
+    }
+  };
+
+  const toggleSelected = (note: Note) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(note._id)) next.delete(note._id);
+      else next.add(note._id);
+      return next;
+    });
+  };
+
+  const handleExportSelected = () => {
+    if (!selectedIds) return;
+    setNotesToExport(viewNotes.filter((note) => selectedIds.has(note._id)));
   };
 
-  // Removed edit functionality to match design
+  // "All" includes pages not loaded yet; local copies win since they may hold unsynced edits
+  const handleExportAll = async () => {
+    if (!hasMore || !isOnline) {
+      setNotesToExport(viewNotes);
+      return;
+    }
+
+    setIsGatheringExport(true);
+    try {
+      const byId = new Map(viewNotes.map((note) => [note._id, note]));
+      let cursor: string | null = null;
+      do {
+        const page = await notesApi.list({ view, limit: EXPORT_PAGE_SIZE, ...(cursor ? { cursor } : {}) });
+        page.notes.forEach((note) => {
+          if (!byId.has(note._id)) byId.set(note._id, note);
+        });
+        cursor = page.nextCursor;
+      } while (cursor);
+      setNotesToExport([...byId.values()]);
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('dashboard.toast.exportLoadFailed')));
+    } finally {
+      setIsGatheringExport(false);
+    }
+  };
 
   const handleCancel = () => {
+    if (!isDraftEmpty(formData) && !window.confirm(t('dashboard.discardConfirm'))) {
+      return;
+    }
+    if (draftKey) discardDraft(draftKey);
     setShowCreateForm(false);
-    setFormData({ title: '', content: '' });
+    setFormData({ title: '', content: '', tags: [] });
   };
 
-  const handleLogout = () => {
-    logout();
-    toast.success('Logged out successfully!');
+  useHotkeys([
+    {
+      combo: 'n',
+      handler: () => (view === 'notes' ? openCreateForm() : navigate('/dashboard', { state: { command: 'new-note' } }))
+    },
+    { combo: '/', handler: () => searchInputRef.current?.focus() },
+    { combo: 'j', handler: () => moveActive(1) },
+    { combo: 'k', handler: () => moveActive(-1) },
+    { combo: ['enter', 'o'], handler: () => activeNote && navigate(`/notes/${activeNote._id}`) },
+    {
+      combo: ['#', 'delete'],
+      handler: () => {
+        if (!activeNote) return;
+        if (view === 'trash') {
+          handleDeleteForever(activeNote);
+          return;
+        }
+        // Keep the keyboard on the list by moving to a neighbour
+        const neighbour = visibleNotes[activeIndex + 1] ?? visibleNotes[activeIndex - 1];
+        setActiveNoteId(neighbour?._id ?? null);
+        handleTrashNote(activeNote);
+      }
+    },
+    { combo: 'escape', handler: () => setActiveNoteId(null) }
+  ]);
+
+  const handleLogout = async () => {
+    if (await signOut()) toast.success(t('common.loggedOut'));
   };
 
   return (
@@ -91,52 +413,109 @@ const Dashboard: React.FC = () => {
         <div className="px-4 py-3">
           <div className="flex justify-between items-center">
             <div className="flex items-center space-x-3">
-              <div className="w-6 h-6 bg-gray-200 rounded flex items-center justify-center">
+              <Link
+                to="/settings"
+                className="w-6 h-6 bg-gray-200 rounded flex items-center justify-center hover:bg-gray-300"
+                title={t('palette.settings')}
+              >
                 <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                 </svg>
-              </div>
-              <h1 className="text-lg font-semibold text-gray-900">Dashboard</h1>
+              </Link>
+              <h1 className="text-lg font-semibold text-gray-900">{t('dashboard.title')}</h1>
+            </div>
+            <div className="flex items-center space-x-3">
+              <LanguageSwitcher />
+              <ThemeToggle />
+              <button
+                onClick={handleLogout}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                {t('common.signOut')}
+              </button>
             </div>
-            <button
-              onClick={handleLogout}
-              className="text-sm text-gray-500 hover:text-gray-700"
-            >
-              Sign Out
-            </button>
           </div>
         </div>
       </header>
 
+      {!isOnline && (
+        <div className="flex items-center justify-center space-x-2 bg-amber-50 text-amber-800 text-sm px-4 py-2 border-b border-amber-200">
+          <WifiOff className="h-4 w-4" />
+          <span>{t('dashboard.offline')}</span>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="px-4 py-6">
         {/* Welcome Card */}
         <div className="bg-white rounded-lg shadow-sm border p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-1">
-            Welcome, {user?.name}!
+            {t('welcome.greeting', { name: user?.name ?? '' })}
           </h2>
           <p className="text-sm text-gray-600 mb-4">
-            Email: {user?.email}
+            {t('dashboard.email', { email: user?.email ?? '' })}
           </p>
-          <button
-            onClick={() => setShowCreateForm(true)}
-            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
-          >
-            Create Note
-          </button>
+          {view === 'notes' && (
+            <>
+              <button
+                onClick={openCreateForm}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+              >
+                {t('dashboard.createNote')}
+              </button>
+              {unsentDraftCount > 0 && (
+                <p className="mt-2 text-xs text-center text-gray-500">
+                  {t('dashboard.unsentDrafts', { count: unsentDraftCount })}
+                </p>
+              )}
+            </>
+          )}
         </div>
 
-        {/* Create/Edit Note Form */}
-        {showCreateForm && (
+        {/* Create Note Form */}
+        {view === 'notes' && showCreateForm && (
           <div className="mb-6 bg-white rounded-lg shadow-sm border p-4">
             <h3 className="text-lg font-medium text-gray-900 mb-4">
-              Create New Note
+              {t('dashboard.createTitle')}
             </h3>
+            {otherDrafts.length > 0 && (
+              <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3">
+                <p className="text-sm font-medium text-amber-800 mb-2">{t('dashboard.unsentDraftsTitle')}</p>
+                <ul className="space-y-2">
+                  {otherDrafts.map((draft) => (
+                    <li key={draft.key} className="flex items-center justify-between text-sm">
+                      <span className="min-w-0 flex-1 me-3">
+                        <span className="block truncate text-gray-900">{draft.title.trim() || t('common.untitled')}</span>
+                        <span className="block text-xs text-gray-500">
+                          {t('drafts.saved', {
+                            date: formatDate(draft.savedAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+                          })}
+                        </span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRestoreDraft(draft)}
+                        className="font-medium text-blue-600 hover:text-blue-700 me-3"
+                      >
+                        {t('drafts.restore')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDiscardDraft(draft)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        {t('drafts.discard')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <form onSubmit={handleCreateNote}>
               <div className="mb-4">
                 <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
-                  Title
+                  {t('note.titleLabel')}
                 </label>
                 <input
                   type="text"
@@ -144,84 +523,220 @@ const Dashboard: React.FC = () => {
                   value={formData.title}
                   onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter note title"
+                  placeholder={t('note.titlePlaceholder')}
                   maxLength={200}
                 />
               </div>
               <div className="mb-4">
                 <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
-                  Content
+                  {t('note.contentLabel')}
                 </label>
-                <textarea
+                <MarkdownEditor
                   id="content"
                   value={formData.content}
-                  onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                  onChange={(content) => setFormData({ ...formData, content })}
                   rows={4}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter note content"
+                  placeholder={t('note.contentPlaceholder')}
                   maxLength={10000}
                 />
               </div>
+              <div className="mb-4">
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('note.tagsLabel')}
+                </label>
+                <TagInput
+                  id="tags"
+                  value={formData.tags}
+                  onChange={(tags) => setFormData({ ...formData, tags })}
+                  suggestions={tagSummaries.map(({ tag }) => tag)}
+                />
+              </div>
               <div className="flex space-x-3">
                 <button
                   type="submit"
                   className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  Create Note
+                  {t('dashboard.createNote')}
                 </button>
                 <button
                   type="button"
                   onClick={handleCancel}
                   className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </button>
               </div>
             </form>
           </div>
         )}
 
+        {/* Notes / Archive / Trash tabs */}
+        <nav className="flex space-x-1 bg-gray-100 rounded-lg p-1 mb-4">
+          {viewTabs.map((tab) => (
+            <NavLink
+              key={tab.view}
+              to={tab.path}
+              className={({ isActive }) =>
+                `flex-1 text-center text-sm font-medium rounded-md py-1.5 ${
+                  isActive ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`
+              }
+            >
+              {t(tab.label)}
+            </NavLink>
+          ))}
+        </nav>
+
         {/* Notes Section - Mobile Design */}
         <div>
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Notes</h3>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              {t(viewTabs.find((tab) => tab.view === view)?.label ?? 'dashboard.tab.notes')}
+            </h3>
+            <div className="flex items-center space-x-3">
+              {view === 'notes' && (
+                <Link
+                  to="/import"
+                  className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+                  title={t('palette.importNotes')}
+                >
+                  <Upload className="h-4 w-4" />
+                  <span>{t('dashboard.import')}</span>
+                </Link>
+              )}
+              {viewNotes.length > 0 && (
+                <button
+                  onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+                  className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+                  title={t('dashboard.exportNotes')}
+                >
+                  <Download className="h-4 w-4" />
+                  <span>{selectedIds ? t('common.done') : t('dashboard.export')}</span>
+                </button>
+              )}
+              {view === 'trash' && (viewNotes.length > 0 || hasMore) && (
+                <button
+                  onClick={handleEmptyTrash}
+                  disabled={isEmptyingTrash}
+                  className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  {t('dashboard.emptyTrash')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {selectedIds && (
+            <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-md px-3 py-2 mb-4 text-sm">
+              <span className="text-blue-800">
+                {selectedIds.size === 0 ? t('dashboard.selectToExport') : t('dashboard.selected', { count: selectedIds.size })}
+              </span>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={handleExportSelected}
+                  disabled={selectedIds.size === 0}
+                  className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {t('dashboard.exportSelected')}
+                </button>
+                <button
+                  onClick={handleExportAll}
+                  disabled={isGatheringExport}
+                  className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {isGatheringExport ? t('common.loading') : t('dashboard.exportAll')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {view === 'trash' && (
+            <p className="text-xs text-gray-500 mb-4">
+              {t('dashboard.trashRetention', { count: TRASH_RETENTION_DAYS })}
+            </p>
+          )}
+
+          {viewNotes.length > 0 && (
+            <>
+              <NoteSearchBar filters={filters} onChange={handleFiltersChange} inputRef={searchInputRef} />
+              <TagFilter
+                tags={tagSummaries}
+                selected={filters.tags}
+                mode={filters.tagMode}
+                onChange={handleTagFilterChange}
+              />
+            </>
+          )}
           
-          {isLoading ? (
+          {isLoading || isSearching ? (
             <div className="flex justify-center items-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
             </div>
-          ) : notes.length === 0 ? (
+          ) : viewNotes.length === 0 ? (
             <div className="text-center py-12">
-              <p className="text-gray-500">No notes yet. Create your first note!</p>
+              <p className="text-gray-500">{t(emptyMessages[view])}</p>
+              {hasMore && view !== 'notes' && (
+                <button
+                  onClick={loadMoreNotes}
+                  disabled={isLoadingMore}
+                  className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  {isLoadingMore ? t('common.loading') : t('dashboard.checkOlder')}
+                </button>
+              )}
+            </div>
+          ) : visibleNotes.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 mb-2">{t('dashboard.noMatches')}</p>
+              <button
+                onClick={() => setSearchParams({}, { replace: true })}
+                className="text-sm font-medium text-blue-600 hover:text-blue-700"
+              >
+                {t('dashboard.clearFilters')}
+              </button>
             </div>
           ) : (
             <div className="space-y-3">
-              {notes.map((note, index) => (
-                <div key={note._id} className="bg-white rounded-lg shadow-sm border p-4">
-                  <div className="flex justify-between items-start mb-2">
-                    <h4 className="text-base font-medium text-gray-900 truncate flex-1">
-                      Note {index + 1}
-                    </h4>
-                    <button
-                      onClick={() => handleDeleteNote(note._id)}
-                      className="text-gray-400 hover:text-red-600 ml-2 p-1"
-                      title="Delete note"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
-                  <p className="text-gray-600 text-sm mb-2 overflow-hidden" style={{
-                    display: '-webkit-box',
-                    WebkitLineClamp: 2,
-                    WebkitBoxOrient: 'vertical'
-                  }}>
-                    {note.content}
-                  </p>
-                </div>
-              ))}
+              {isFiltering && (
+                <p className="text-xs text-gray-500">
+                  {useServerSearch
+                    ? t('dashboard.matchCount', { count: visibleNotes.length })
+                    : t('dashboard.matchCountOf', { shown: visibleNotes.length, count: viewNotes.length })}
+                </p>
+              )}
+              <VirtualNoteList
+                notes={visibleNotes}
+                hasMore={hasMore && !(isFiltering && useServerSearch)}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={loadMoreNotes}
+                activeIndex={activeIndex}
+                renderNote={(note) => (
+                  <NoteCard
+                    note={note}
+                    view={view}
+                    searchTerms={searchTerms}
+                    syncStatus={getSyncStatus(note._id)}
+                    onTogglePin={handleTogglePin}
+                    onToggleArchive={handleToggleArchive}
+                    onTrash={handleTrashNote}
+                    onRestore={handleRestoreNote}
+                    onDeleteForever={handleDeleteForever}
+                    onRetrySync={retrySync}
+                    onDiscardChanges={discardChanges}
+                    isSelected={selectedIds?.has(note._id)}
+                    onSelect={selectedIds ? toggleSelected : undefined}
+                    isActive={note._id === activeNoteId}
+                  />
+                )}
+              />
             </div>
           )}
         </div>
       </main>
+
+      {notesToExport && (
+        <ExportDialog notes={notesToExport} onClose={() => setNotesToExport(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, FileUp } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useNotes } from '../contexts/NotesContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { notes as notesApi } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import { IMPORT_ACCEPT, parseImportFiles, titleKey } from '../utils/noteTransfer';
+import type { ImportedNote, ImportResult } from '../utils/noteTransfer';
+import type { Note } from '../types/note';
+import type { MessageKey } from '../locales/en';
+
+type Problem = 'existing' | 'repeated' | 'empty';
+
+const problemLabels: Record<Problem, MessageKey> = {
+  existing: 'import.problem.existing',
+  repeated: 'import.problem.repeated',
+  empty: 'import.problem.empty'
+};
+
+// Title searches run this many at a time
+const SEARCH_BATCH_SIZE = 5;
+const SEARCH_LIMIT = 100;
+
+// Flag notes whose title matches an existing note or an earlier one in the batch.
+// `serverTitles` covers notes the list hasn't paged in yet.
+const findProblems = (notes: Note[], imported: ImportedNote[], serverTitles: Set<string>): (Problem | null)[] => {
+  const existing = new Set(notes.filter((note) => note.deletedAt === null).map((note) => titleKey(note.title)));
+  serverTitles.forEach((key) => existing.add(key));
+  const seen = new Set<string>();
+  return imported.map((note) => {
+    const key = titleKey(note.title);
+    const problem = !note.content ? 'empty' : existing.has(key) ? 'existing' : seen.has(key) ? 'repeated' : null;
+    seen.add(key);
+    return problem;
+  });
+};
+
+// Titles from the import that the server already has, searched for one by one
+const findServerTitles = async (imported: ImportedNote[]): Promise<Set<string>> => {
+  const keys = [...new Set(imported.map((note) => titleKey(note.title)).filter(Boolean))];
+  const found = new Set<string>();
+  for (let start = 0; start < keys.length; start += SEARCH_BATCH_SIZE) {
+    await Promise.all(keys.slice(start, start + SEARCH_BATCH_SIZE).map(async (key) => {
+      const page = await notesApi.list({ q: key, limit: SEARCH_LIMIT });
+      if (page.notes.some((note) => note.deletedAt === null && titleKey(note.title) === key)) found.add(key);
+    }));
+  }
+  return found;
+};
+
+const ImportNotes: React.FC = () => {
+  const navigate = useNavigate();
+  const { notes, hasMore, isOnline, createNote, createNoteOnServer, updateNote } = useNotes();
+  const { t } = useLocale();
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  // Checked once when the files are read, so notes created by the import don't flag themselves
+  const [problems, setProblems] = useState<(Problem | null)[]>([]);
+  // True when some notes couldn't be checked for duplicates, e.g. while offline
+  const [isCheckPartial, setIsCheckPartial] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const isImporting = progress !== null;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    try {
+      const parsed = await parseImportFiles(files);
+      // Only the pages loaded so far are in `notes`; ask the server about the rest
+      let serverTitles = new Set<string>();
+      let isPartial = false;
+      if (hasMore) {
+        try {
+          serverTitles = await findServerTitles(parsed.notes);
+        } catch {
+          isPartial = true;
+        }
+      }
+      const found = findProblems(notes, parsed.notes, serverTitles);
+      setResult(parsed);
+      setProblems(found);
+      setIsCheckPartial(isPartial);
+      // Duplicates and empty notes start unticked
+      setSelected(new Set(found.flatMap((problem, index) => (problem ? [] : [index]))));
+      if (parsed.notes.length === 0) toast.error(t('import.toast.noneFound'));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('import.toast.readFailed')));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  // Online, each note is created on the server so the progress and the result
+  // are what it actually saved. Offline they are queued to sync later.
+  const importNote = async ({ title, content, tags, isPinned, isArchived }: ImportedNote) => {
+    if (isOnline) {
+      await createNoteOnServer({ title, content, tags, isPinned, isArchived });
+      return;
+    }
+    const note = await createNote({ title, content, tags });
+    if (isPinned || isArchived) await updateNote(note._id, { isPinned, isArchived });
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+
+    const chosen = [...selected].sort((a, b) => a - b);
+    const failed: number[] = [];
+    let firstError: unknown;
+    setProgress({ done: 0, total: chosen.length });
+    for (const [done, index] of chosen.entries()) {
+      try {
+        await importNote(result.notes[index]);
+      } catch (error) {
+        failed.push(index);
+        firstError ??= error;
+      }
+      setProgress({ done: done + 1, total: chosen.length });
+    }
+    setProgress(null);
+
+    const imported = chosen.length - failed.length;
+    if (failed.length > 0) {
+      const reason = getErrorMessage(firstError, '');
+      toast.error(t('import.toast.partial', { imported, count: chosen.length, failed: failed.length, reason }));
+      // Leave only the notes that didn't make it, ready to try again
+      setResult({ ...result, notes: failed.map((index) => result.notes[index]) });
+      setProblems(failed.map((index) => problems[index]));
+      setSelected(new Set(failed.map((_, position) => position)));
+      return;
+    }
+    toast.success(t(isOnline ? 'import.toast.imported' : 'import.toast.importedOffline', { count: imported }));
+    navigate('/dashboard');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3">
+          <div className="flex items-center space-x-3">
+            <Link to="/dashboard" className="text-gray-500 hover:text-gray-700" title={t('common.backToNotes')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-lg font-semibold text-gray-900">{t('import.title')}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-6 space-y-4">
+        <label
+          className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 bg-white px-4 py-8 text-center ${
+            isImporting ? 'opacity-50' : 'cursor-pointer hover:border-blue-400'
+          }`}
+        >
+          <FileUp className="h-8 w-8 text-gray-400 mb-2" />
+          <span className="text-sm font-medium text-blue-600">
+            {isReading ? t('import.reading') : t('import.choose')}
+          </span>
+          <span className="mt-1 text-xs text-gray-500">{t('import.formats')}</span>
+          <input
+            type="file"
+            multiple
+            accept={IMPORT_ACCEPT}
+            onChange={handleFiles}
+            disabled={isReading || isImporting}
+            className="sr-only"
+          />
+        </label>
+
+        {result && result.errors.length > 0 && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <p className="font-medium mb-1">{t('import.errors')}</p>
+            <ul className="list-disc ps-5 space-y-0.5">
+              {result.errors.map((error) => (
+                <li key={error} className="break-all">{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result && result.notes.length > 0 && (
+          <section className="bg-white rounded-lg shadow-sm border">
+            <div className="flex items-center justify-between px-4 py-3 border-b">
+              <h2 className="text-base font-medium text-gray-900">
+                {t('import.selected', { selected: selected.size, count: result.notes.length })}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setResult(null)}
+                disabled={isImporting}
+                className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              >
+                {t('tags.clear')}
+              </button>
+            </div>
+            {isCheckPartial && (
+              <p className="px-4 py-2 border-b bg-amber-50 text-xs text-amber-800">
+                {t('import.partialCheck')}
+              </p>
+            )}
+            <ul className="divide-y max-h-96 overflow-y-auto">
+              {result.notes.map((note, index) => (
+                <li key={index}>
+                  <label className="flex items-start space-x-3 px-4 py-3 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(index)}
+                      onChange={() => toggle(index)}
+                      disabled={isImporting || problems[index] === 'empty'}
+                      className="mt-1"
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block text-sm font-medium text-gray-900 truncate">{note.title}</span>
+                      <span className="block text-xs text-gray-500 truncate">{note.source}</span>
+                      {problems[index] && (
+                        <span className="mt-1 inline-block bg-amber-50 text-amber-800 text-xs rounded-full px-2 py-0.5">
+                          {t(problemLabels[problems[index]])}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="px-4 py-3 border-t space-y-3">
+              {progress && (
+                <div>
+                  <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {t('import.progress', { done: progress.done, total: progress.total })}
+                  </p>
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={selected.size === 0 || isImporting}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? t('import.importing') : t('import.submit', { count: selected.size })}
+              </button>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ImportNotes;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+const NotFound: React.FC = () => {
+  const { user } = useAuth();
+  const { t } = useLocale();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="text-center">
+        <p className="text-5xl font-bold text-primary-600">404</p>
+        <h1 className="mt-4 text-2xl font-bold text-gray-900">{t('notFound.title')}</h1>
+        <p className="mt-2 text-sm text-gray-600">
+          {t('notFound.description')}
+        </p>
+        <Link
+          to={user ? '/dashboard' : '/signin'}
+          className="mt-6 inline-flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+        >
+          {user ? t('notFound.backToNotes') : t('notFound.goToSignIn')}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default NotFound;
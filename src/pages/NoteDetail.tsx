@@ -0,0 +1,492 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useBlocker, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, History, Pencil, Share2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotes } from '../contexts/NotesContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { SyncStatusBadge } from '../components/SyncStatusBadge';
+import { MarkdownEditor } from '../components/MarkdownEditor';
+import { MarkdownView } from '../components/MarkdownView';
+import { TagInput } from '../components/TagInput';
+import { ExportDialog } from '../components/ExportDialog';
+import { ShareDialog } from '../components/ShareDialog';
+import { DraftConflictDialog } from '../components/DraftConflictDialog';
+import { NoteHistoryDialog } from '../components/NoteHistoryDialog';
+import { NoteAttachments } from '../components/NoteAttachments';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { collectTags } from '../utils/tags';
+import { daysUntilPurge } from '../utils/notes';
+import { isLocalId } from '../utils/offlineStore';
+import { formatDate } from '../utils/i18n';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import { differsFromNote, getDraft, hasServerChanged, moveNoteDraft, noteDraftKey } from '../utils/drafts';
+import type { NoteDraft } from '../utils/drafts';
+import type { Note, NoteInput } from '../types/note';
+import type { MessageKey } from '../locales/en';
+
+const UNSAVED_CHANGES_MESSAGE: MessageKey = 'noteDetail.unsavedChangesConfirm';
+
+// Attachments are saved on their own and bump updatedAt without touching the text
+const changedOnlyAttachments = (before: Note, after: Note) =>
+  before.attachments !== after.attachments &&
+  !differsFromNote(before, after) &&
+  before.isPinned === after.isPinned &&
+  before.isArchived === after.isArchived &&
+  before.deletedAt === after.deletedAt;
+
+const NoteDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { t } = useLocale();
+  const { notes, isLoading, isOnline, fetchNote, updateNote, resolveNoteId, getSyncStatus } = useNotes();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // The note's updatedAt when this edit started
+  const [editBase, setEditBase] = useState<string | null>(null);
+  // A draft from an earlier session, waiting for the user to restore or discard it
+  const [pendingDraft, setPendingDraft] = useState<NoteDraft | null>(null);
+  const [showConflict, setShowConflict] = useState(false);
+  // Set once a note that isn't among the loaded pages has been looked up
+  const [missingId, setMissingId] = useState<string | null>(null);
+  const [fetchError, setFetchError] = useState<{ id: string; message: string } | null>(null);
+  const [formData, setFormData] = useState<NoteInput>({
+    title: '',
+    content: '',
+    tags: []
+  });
+
+  const note = notes.find((n) => n._id === id) ?? null;
+
+  const isDirty = isEditing && note !== null &&
+    (formData.title !== note.title ||
+      formData.content !== note.content ||
+      formData.tags.join(',') !== note.tags.join(','));
+
+  const draftKey = note ? noteDraftKey(note._id) : null;
+  // Nothing is autosaved until an earlier draft has been dealt with, so it isn't overwritten
+  const activeDraft = useMemo(
+    () => (isEditing && note && draftKey && !pendingDraft
+      ? { key: draftKey, noteId: note._id, baseUpdatedAt: editBase, ...formData }
+      : null),
+    [isEditing, note, draftKey, pendingDraft, editBase, formData]
+  );
+  const { discard: discardDraft } = useDraftAutosave(user?.id, activeDraft);
+
+  // Unsaved changes left from an earlier visit, offered while just viewing the note
+  const storedDraft = useMemo(() => {
+    if (isEditing || !user || !note || !draftKey) return null;
+    const draft = getDraft(user.id, draftKey);
+    return draft && differsFromNote(draft, note) ? draft : null;
+  }, [isEditing, user, note, draftKey]);
+
+  // A note created offline gets a new id once it syncs; follow it, along with
+  // drafts and an edit that started before then
+  useEffect(() => {
+    if (!id) return;
+    const resolvedId = resolveNoteId(id);
+    if (resolvedId === id) return;
+
+    const synced = notes.find((n) => n._id === resolvedId);
+    if (synced) {
+      // Also catches an autosave that landed under the old id after the sync moved the draft
+      if (userId) moveNoteDraft(userId, id, resolvedId, synced.updatedAt);
+      setEditBase((base) => (base === null ? base : synced.updatedAt));
+      setPendingDraft((draft) => (draft?.noteId === id
+        ? { ...draft, key: noteDraftKey(resolvedId), noteId: resolvedId, baseUpdatedAt: synced.updatedAt }
+        : draft));
+    }
+    navigate(`/notes/${resolvedId}`, { replace: true });
+  }, [id, notes, userId, resolveNoteId, navigate]);
+
+  // An attachment added or removed mid-edit isn't a change made elsewhere, so the
+  // edit's base follows it and saving won't report a conflict
+  const previousNoteRef = useRef(note);
+  useEffect(() => {
+    const previous = previousNoteRef.current;
+    previousNoteRef.current = note;
+    if (!previous || !note || previous._id !== note._id || previous.updatedAt === note.updatedAt) return;
+    if (changedOnlyAttachments(previous, note)) {
+      setEditBase((base) => (base === previous.updatedAt ? note.updatedAt : base));
+    }
+  }, [note]);
+
+  // The list only holds the pages loaded so far; links and search hits can point past them
+  const hasNote = note !== null;
+  const isLookingUp = !hasNote && !!id && !isLocalId(id) && missingId !== id && fetchError?.id !== id;
+
+  useEffect(() => {
+    // Temporary ids are never on the server; one that has synced is followed above
+    if (isLoading || !id || hasNote || isLocalId(id)) return;
+    if (missingId === id || fetchError?.id === id) return;
+
+    let cancelled = false;
+    fetchNote(id).catch((error) => {
+      if (cancelled) return;
+      if (toApiError(error).code === 'NOT_FOUND') setMissingId(id);
+      else setFetchError({ id, message: getErrorMessage(error, t('noteDetail.loadFailed')) });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isLoading, hasNote, missingId, fetchError, fetchNote, t]);
+
+  // Warn before the tab is closed or reloaded with pending edits
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = t(UNSAVED_CHANGES_MESSAGE);
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty, t]);
+
+  // Same for leaving within the app: links, Back, the command palette and
+  // shortcuts. Following the note to its synced id isn't leaving.
+  const blocker = useBlocker(({ nextLocation }) => isDirty && nextLocation.pathname !== `/notes/${note?._id}`);
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (window.confirm(t(UNSAVED_CHANGES_MESSAGE))) blocker.proceed();
+    else blocker.reset();
+  }, [blocker, t]);
+
+  const confirmDiscard = () => !isDirty || window.confirm(t(UNSAVED_CHANGES_MESSAGE));
+
+  const handleEdit = () => {
+    if (!note || !draftKey) return;
+    setFormData({ title: note.title, content: note.content, tags: note.tags });
+    setEditBase(note.updatedAt);
+
+    const draft = user ? getDraft(user.id, draftKey) : null;
+    if (draft && differsFromNote(draft, note)) setPendingDraft(draft);
+    else if (draft) discardDraft(draft.key);
+    setIsEditing(true);
+  };
+
+  const handleCancel = () => {
+    if (!confirmDiscard()) return;
+    // An earlier draft nobody has looked at yet is kept for next time
+    if (draftKey && !pendingDraft) discardDraft(draftKey);
+    setPendingDraft(null);
+    setIsEditing(false);
+  };
+
+  const restoreDraft = (draft: NoteDraft, baseUpdatedAt: string | null) => {
+    setFormData({ title: draft.title, content: draft.content, tags: draft.tags });
+    setEditBase(baseUpdatedAt);
+    setPendingDraft(null);
+    setShowConflict(false);
+  };
+
+  const handleDiscardPendingDraft = () => {
+    if (pendingDraft) discardDraft(pendingDraft.key);
+    setPendingDraft(null);
+    setShowConflict(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title.trim() || !formData.content.trim()) {
+      toast.error(t('dashboard.toast.fillAllFields'));
+      return;
+    }
+
+    if (!note) return;
+
+    setIsSaving(true);
+    try {
+      await updateNote(note._id, formData);
+      if (draftKey) discardDraft(draftKey);
+      setIsEditing(false);
+      toast.success(isOnline ? t('noteDetail.toast.updated') : t('dashboard.toast.createdOffline'));
+    } catch {
+      toast.error(t('note.toast.updateFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!note) return;
+    try {
+      await updateNote(note._id, note.deletedAt !== null ? { deletedAt: null } : { isArchived: false });
+      toast.success(note.deletedAt !== null ? t('note.toast.restored') : t('note.toast.unarchived'));
+    } catch {
+      toast.error(t('note.toast.updateFailed'));
+    }
+  };
+
+  const formatTimestamp = (dateString: string) => {
+    return formatDate(dateString, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className={`min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg ${isEditing ? 'lg:max-w-5xl' : ''}`}>
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3">
+          <div className="flex justify-between items-center">
+            <Link
+              to="/dashboard"
+              className="flex items-center space-x-2 text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>{t('noteDetail.allNotes')}</span>
+            </Link>
+            {note && !isEditing && (
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setShowExport(true)}
+                  className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>{t('dashboard.export')}</span>
+                </button>
+                <button
+                  onClick={() => setShowHistory(true)}
+                  // Versions are kept by the server, like share links
+                  disabled={!isOnline || isLocalId(note._id)}
+                  title={isLocalId(note._id) ? t('noteDetail.availableAfterSync') : undefined}
+                  className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                >
+                  <History className="h-4 w-4" />
+                  <span>{t('noteDetail.history')}</span>
+                </button>
+                {note.deletedAt === null && (
+                  <button
+                    onClick={() => setShowShare(true)}
+                    // Links are made by the server, so the note has to exist there first
+                    disabled={!isOnline || isLocalId(note._id)}
+                    title={isLocalId(note._id) ? t('noteDetail.shareUnsynced') : undefined}
+                    className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    <Share2 className="h-4 w-4" />
+                    <span>{t('noteDetail.share')}</span>
+                  </button>
+                )}
+                {note.deletedAt === null && (
+                  <button
+                    onClick={handleEdit}
+                    className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span>{t('common.edit')}</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-6">
+        {isLoading || isLookingUp ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : !note && fetchError ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">{fetchError.message}</p>
+            <button
+              onClick={() => setFetchError(null)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              {t('noteDetail.tryAgain')}
+            </button>
+          </div>
+        ) : !note ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">{t('noteDetail.notFound')}</p>
+            <button
+              onClick={() => navigate('/dashboard')}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              {t('common.backToNotes')}
+            </button>
+          </div>
+        ) : isEditing ? (
+          <div className="bg-white rounded-lg shadow-sm border p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {t('noteDetail.editTitle')}
+            </h3>
+            {pendingDraft && (
+              <div className="flex items-center justify-between rounded-md border border-amber-200 bg-amber-50 px-3 py-2 mb-4 text-sm text-amber-800">
+                <span className="me-3">
+                  {hasServerChanged(pendingDraft, note)
+                    ? t('noteDetail.draftOutdated', { date: formatTimestamp(pendingDraft.savedAt) })
+                    : t('noteDetail.draftFound', { date: formatTimestamp(pendingDraft.savedAt) })}
+                </span>
+                <div className="flex shrink-0 space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => (hasServerChanged(pendingDraft, note)
+                      ? setShowConflict(true)
+                      : restoreDraft(pendingDraft, pendingDraft.baseUpdatedAt))}
+                    className="font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    {hasServerChanged(pendingDraft, note) ? t('noteDetail.compare') : t('drafts.restore')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDiscardPendingDraft}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    {t('drafts.discard')}
+                  </button>
+                </div>
+              </div>
+            )}
+            <form onSubmit={handleSave}>
+              <div className="mb-4">
+                <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('note.titleLabel')}
+                </label>
+                <input
+                  type="text"
+                  id="title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={t('note.titlePlaceholder')}
+                  maxLength={200}
+                />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="content" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('note.contentLabel')}
+                </label>
+                <MarkdownEditor
+                  id="content"
+                  value={formData.content}
+                  onChange={(content) => setFormData({ ...formData, content })}
+                  rows={14}
+                  placeholder={t('note.contentPlaceholder')}
+                  maxLength={10000}
+                  sideBySide
+                />
+              </div>
+              <div className="mb-4">
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('note.tagsLabel')}
+                </label>
+                <TagInput
+                  id="tags"
+                  value={formData.tags}
+                  onChange={(tags) => setFormData({ ...formData, tags })}
+                  suggestions={collectTags(notes).map(({ tag }) => tag)}
+                />
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  type="submit"
+                  disabled={isSaving || !isDirty}
+                  className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? t('common.saving') : t('settings.saveChanges')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  {t('common.cancel')}
+                </button>
+              </div>
+            </form>
+          </div>
+        ) : (
+          <article className="bg-white rounded-lg shadow-sm border p-4">
+            {storedDraft && note.deletedAt === null && (
+              <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-4 text-sm text-amber-800">
+                <span>{t('noteDetail.draftFound', { date: formatTimestamp(storedDraft.savedAt) })}</span>
+                <button
+                  onClick={handleEdit}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {t('noteDetail.continueEditing')}
+                </button>
+              </div>
+            )}
+            {(note.deletedAt !== null || note.isArchived) && (
+              <div className="flex items-center justify-between bg-gray-50 border rounded-md px-3 py-2 mb-4 text-sm text-gray-600">
+                <span>
+                  {note.deletedAt !== null
+                    ? t('noteDetail.inTrash', { count: daysUntilPurge(note) })
+                    : t('noteDetail.archived')}
+                </span>
+                <button
+                  onClick={handleRestore}
+                  className="font-medium text-blue-600 hover:text-blue-700"
+                >
+                  {note.deletedAt !== null ? t('drafts.restore') : t('noteDetail.unarchive')}
+                </button>
+              </div>
+            )}
+            <h2 className="text-xl font-semibold text-gray-900 mb-1 break-words">
+              {note.title}
+            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-xs text-gray-500">
+                {t('note.lastUpdated', { date: formatTimestamp(note.updatedAt) })}
+              </p>
+              <SyncStatusBadge status={getSyncStatus(note._id)} />
+            </div>
+            {note.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-4">
+                {note.tags.map((tag) => (
+                  <Link
+                    key={tag}
+                    to={`/dashboard?${new URLSearchParams({ tags: tag, tagMode: 'any' })}`}
+                    className="bg-blue-50 text-blue-700 text-xs rounded-full px-2 py-0.5 hover:bg-blue-100"
+                  >
+                    {tag}
+                  </Link>
+                ))}
+              </div>
+            )}
+            <MarkdownView content={note.content} className="text-gray-700 text-sm" />
+          </article>
+        )}
+        {/* Kept mounted while switching between viewing and editing so uploads carry on */}
+        {!isLoading && note && <NoteAttachments note={note} />}
+      </main>
+
+      {note && showExport && (
+        <ExportDialog notes={[note]} onClose={() => setShowExport(false)} />
+      )}
+      {note && pendingDraft && showConflict && (
+        <DraftConflictDialog
+          note={note}
+          draft={pendingDraft}
+          // Choosing the draft settles the conflict, so later saves are measured from now
+          onKeepDraft={() => restoreDraft(pendingDraft, note.updatedAt)}
+          onKeepSaved={handleDiscardPendingDraft}
+          onClose={() => setShowConflict(false)}
+        />
+      )}
+      {note && showShare && (
+        <ShareDialog note={note} onClose={() => setShowShare(false)} />
+      )}
+      {note && showHistory && (
+        <NoteHistoryDialog note={note} onClose={() => setShowHistory(false)} />
+      )}
+    </div>
+  );
+};
+
+export default NoteDetail;
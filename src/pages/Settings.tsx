@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { ArrowLeft, Calendar, Mail, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { OtpVerification } from '../components/OtpVerification';
+import { auth } from '../utils/apiClient';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import { getOtpCooldown, recordOtpRequest } from '../utils/otpCooldown';
+import { getFormValidationRules } from '../utils/validation';
+import { accentThemes, themePreferences } from '../config/themes';
+import { locales } from '../config/locales';
+
+interface ProfileForm {
+  name: string;
+  dateOfBirth: string;
+}
+
+interface EmailForm {
+  email: string;
+}
+
+type EmailStep = 'idle' | 'editing' | 'verifying';
+
+const inputClass = 'block w-full ps-10 pe-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-primary-500 focus:border-primary-500';
+
+const primaryButtonClass = 'flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// The API may send a full ISO timestamp; date inputs want YYYY-MM-DD
+const toDateInputValue = (value?: string) => (value ? value.slice(0, 10) : '');
+
+const Settings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { theme, setTheme, accent, setAccent } = useTheme();
+  const { locale, setLocale, t } = useLocale();
+  const rules = getFormValidationRules();
+  const [emailStep, setEmailStep] = useState<EmailStep>('idle');
+  const [pendingEmail, setPendingEmail] = useState('');
+  const [isSendingCode, setIsSendingCode] = useState(false);
+
+  const profileForm = useForm<ProfileForm>({
+    mode: 'onChange',
+    defaultValues: {
+      name: user?.name ?? '',
+      dateOfBirth: toDateInputValue(user?.dateOfBirth)
+    }
+  });
+  const emailForm = useForm<EmailForm>({ mode: 'onChange' });
+
+  const saveProfile = async (data: ProfileForm) => {
+    try {
+      const updated = await auth.updateProfile({
+        name: data.name.trim(),
+        dateOfBirth: data.dateOfBirth || null
+      });
+      updateUser(updated);
+      profileForm.reset({ name: updated.name, dateOfBirth: toDateInputValue(updated.dateOfBirth) });
+      toast.success(t('settings.toast.profileUpdated'));
+    } catch (error) {
+      const apiError = toApiError(error);
+      const fields: (keyof ProfileForm)[] = ['name', 'dateOfBirth'];
+      fields.forEach((field) => {
+        const message = apiError.fieldErrors[field];
+        if (message) profileForm.setError(field, { type: 'server', message });
+      });
+      toast.error(getErrorMessage(apiError, t('settings.toast.profileFailed')));
+    }
+  };
+
+  const sendEmailCode = async ({ email }: EmailForm) => {
+    const newEmail = email.trim();
+    if (newEmail.toLowerCase() === user?.email.toLowerCase()) {
+      emailForm.setError('email', { type: 'validate', message: t('settings.email.same') });
+      return;
+    }
+
+    // A code sent moments ago is still valid, so go straight to entering it
+    const cooldown = getOtpCooldown(newEmail);
+    if (cooldown.isLimited) {
+      toast.error(t('otp.toast.tooManyRequests'));
+      return;
+    }
+    if (cooldown.secondsLeft === 0) {
+      setIsSendingCode(true);
+      try {
+        await auth.requestEmailChange(newEmail);
+        recordOtpRequest(newEmail);
+        toast.success(t('settings.toast.otpSent', { email: newEmail }));
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (apiError.fieldErrors.email) {
+          emailForm.setError('email', { type: 'server', message: apiError.fieldErrors.email });
+        }
+        toast.error(getErrorMessage(apiError, t('otp.toast.sendFailed')));
+        return;
+      } finally {
+        setIsSendingCode(false);
+      }
+    }
+
+    setPendingEmail(newEmail);
+    setEmailStep('verifying');
+  };
+
+  const confirmEmail = async (code: string) => {
+    const updated = await auth.confirmEmailChange(pendingEmail, code);
+    updateUser(updated);
+    toast.success(t('settings.toast.emailChanged', { email: updated.email }));
+    emailForm.reset();
+    setEmailStep('idle');
+  };
+
+  const { errors: profileErrors, isDirty, isSubmitting } = profileForm.formState;
+  const { errors: emailErrors } = emailForm.formState;
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3">
+          <div className="flex items-center space-x-3">
+            <Link to="/dashboard" className="text-gray-500 hover:text-gray-700" title={t('common.backToNotes')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-lg font-semibold text-gray-900">{t('settings.title')}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-6 space-y-6">
+        {/* Profile */}
+        <section className="bg-white rounded-lg shadow-sm border p-4">
+          <h2 className="text-base font-medium text-gray-900 mb-4">{t('settings.profile')}</h2>
+          <form className="space-y-4" onSubmit={profileForm.handleSubmit(saveProfile)}>
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                {t('profile.name')}
+              </label>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 start-0 ps-3 flex items-center pointer-events-none">
+                  <User className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="name"
+                  {...profileForm.register('name', rules.name)}
+                  type="text"
+                  className={inputClass}
+                  placeholder={t('profile.namePlaceholder')}
+                />
+              </div>
+              {profileErrors.name && (
+                <p className="mt-1 text-sm text-red-600">{profileErrors.name.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="dateOfBirth" className="block text-sm font-medium text-gray-700">
+                {t('profile.dateOfBirth')}
+              </label>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 start-0 ps-3 flex items-center pointer-events-none">
+                  <Calendar className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="dateOfBirth"
+                  {...profileForm.register('dateOfBirth', rules.dateOfBirth)}
+                  type="date"
+                  className={inputClass}
+                />
+              </div>
+              {profileErrors.dateOfBirth && (
+                <p className="mt-1 text-sm text-red-600">{profileErrors.dateOfBirth.message}</p>
+              )}
+            </div>
+
+            <button type="submit" disabled={!isDirty || isSubmitting} className={`w-full ${primaryButtonClass}`}>
+              {isSubmitting ? t('common.saving') : t('settings.saveChanges')}
+            </button>
+          </form>
+        </section>
+
+        {/* Email */}
+        <section className="bg-white rounded-lg shadow-sm border p-4">
+          <h2 className="text-base font-medium text-gray-900 mb-1">{t('auth.email')}</h2>
+          <p className="text-sm text-gray-600">
+            {user?.email}
+          </p>
+
+          {emailStep === 'idle' && (
+            <button
+              type="button"
+              onClick={() => setEmailStep('editing')}
+              className="mt-3 text-sm font-medium text-primary-600 hover:text-primary-500"
+            >
+              {t('settings.email.change')}
+            </button>
+          )}
+
+          {emailStep === 'editing' && (
+            <form className="mt-4 space-y-4" onSubmit={emailForm.handleSubmit(sendEmailCode)}>
+              <div>
+                <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700">
+                  {t('settings.email.new')}
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 start-0 ps-3 flex items-center pointer-events-none">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="newEmail"
+                    {...emailForm.register('email', rules.email)}
+                    type="email"
+                    className={inputClass}
+                    placeholder={t('settings.email.newPlaceholder')}
+                    autoFocus
+                  />
+                </div>
+                {emailErrors.email && (
+                  <p className="mt-1 text-sm text-red-600">{emailErrors.email.message}</p>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {t('settings.email.hint')}
+              </p>
+              <div className="flex items-center justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    emailForm.reset();
+                    setEmailStep('idle');
+                  }}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button type="submit" disabled={isSendingCode} className={primaryButtonClass}>
+                  {isSendingCode ? t('auth.sendingOtp') : t('settings.email.sendCode')}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {emailStep === 'verifying' && (
+            <>
+              <p className="mt-4 text-sm text-gray-600">
+                {t('otp.sentTo', { email: pendingEmail })}
+              </p>
+              <OtpVerification
+                email={pendingEmail}
+                onVerify={confirmEmail}
+                onResend={() => auth.requestEmailChange(pendingEmail)}
+                onBack={() => setEmailStep('editing')}
+                backLabel={t('settings.email.useDifferent')}
+              />
+            </>
+          )}
+        </section>
+
+        {/* Appearance */}
+        <section className="bg-white rounded-lg shadow-sm border p-4">
+          <h2 className="text-base font-medium text-gray-900 mb-3">{t('settings.appearance')}</h2>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={t('settings.theme')}>
+            {themePreferences.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={theme === option.id}
+                onClick={() => setTheme(option.id)}
+                className={`flex-1 py-2 text-sm font-medium ${
+                  theme === option.id ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {t(option.label)}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.systemHint')}</p>
+
+          <h3 className="mt-4 text-sm font-medium text-gray-700">{t('settings.accent')}</h3>
+          <div className="mt-2 flex space-x-3" role="radiogroup" aria-label={t('settings.accent')}>
+            {accentThemes.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={accent === option.id}
+                onClick={() => setAccent(option.id)}
+                title={t(option.label)}
+                aria-label={t(option.label)}
+                data-accent={option.id}
+                className={`h-8 w-8 rounded-full bg-primary-600 ${
+                  accent === option.id ? 'ring-2 ring-offset-2 ring-primary-500' : ''
+                }`}
+              />
+            ))}
+          </div>
+
+          <h3 className="mt-4 text-sm font-medium text-gray-700">{t('language.label')}</h3>
+          <div className="mt-2 flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={t('language.label')}>
+            {locales.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={locale === option.id}
+                onClick={() => setLocale(option.id)}
+                lang={option.id}
+                className={`flex-1 py-2 text-sm font-medium ${
+                  locale === option.id ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* Sharing */}
+        <section className="bg-white rounded-lg shadow-sm border p-4">
+          <h2 className="text-base font-medium text-gray-900 mb-1">{t('palette.sharedLinks')}</h2>
+          <p className="text-sm text-gray-600">
+            {t('settings.sharing.description')}
+          </p>
+          <Link to="/shares" className="mt-3 inline-block text-sm font-medium text-primary-600 hover:text-primary-500">
+            {t('settings.sharing.manage')}
+          </Link>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLocale } from '../contexts/LocaleContext';
+import { ShareLinkList } from '../components/ShareLinkList';
+import { shares } from '../utils/apiClient';
+import { getErrorMessage } from '../utils/apiError';
+import type { ShareLink } from '../types/share';
+
+const SharedLinks: React.FC = () => {
+  const { t } = useLocale();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    shares
+      .list()
+      .then((result) => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error(getErrorMessage(error, t('share.toast.loadFailed')));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3">
+          <div className="flex items-center space-x-3">
+            <Link to="/dashboard" className="text-gray-500 hover:text-gray-700" title={t('common.backToNotes')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-lg font-semibold text-gray-900">{t('sharedLinks.title')}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-6">
+        <p className="text-sm text-gray-600 mb-4">
+          {t('sharedLinks.description')}
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : links.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">{t('sharedLinks.empty')}</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border px-4">
+            <ShareLinkList
+              links={links}
+              showNoteTitle
+              onRevoked={(revoked) => setLinks((prev) => prev.filter((link) => link.token !== revoked.token))}
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedLinks;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { MarkdownView } from '../components/MarkdownView';
+import { useLocale } from '../contexts/LocaleContext';
+import { shares } from '../utils/apiClient';
+import { getErrorMessage, toApiError } from '../utils/apiError';
+import { formatDate } from '../utils/i18n';
+import type { SharedNote as SharedNoteData } from '../types/share';
+
+// Public, read-only view of a note opened from a share link
+const SharedNote: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t } = useLocale();
+  const [note, setNote] = useState<SharedNoteData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    shares
+      .getSharedNote(token)
+      .then((result) => {
+        if (!cancelled) setNote(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const apiError = toApiError(err);
+        setError(
+          apiError.status === 404
+            ? t('sharedNote.unavailable')
+            : getErrorMessage(apiError, t('sharedNote.loadFailed'))
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, t]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3 flex justify-between items-center">
+          <h1 className="text-lg font-semibold text-gray-900">{t('sharedNote.title')}</h1>
+          <span className="text-xs text-gray-500">{t('sharedNote.readOnly')}</span>
+        </div>
+      </header>
+
+      <main className="px-4 py-6">
+        {error ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">{error}</p>
+          </div>
+        ) : !note ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <article className="bg-white rounded-lg shadow-sm border p-4">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1 break-words">
+              {note.title}
+            </h2>
+            <p className="text-xs text-gray-500 mb-4">
+              {t('note.lastUpdated', {
+                date: formatDate(note.updatedAt, {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })
+              })}
+            </p>
+            {note.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-4">
+                {note.tags.map((tag) => (
+                  <span key={tag} className="bg-blue-50 text-blue-700 text-xs rounded-full px-2 py-0.5">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            <MarkdownView content={note.content} className="text-gray-700 text-sm" />
+          </article>
+        )}
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          {t('sharedNote.ownNotes')}{' '}
+          <Link to="/signup" className="font-medium text-primary-600 hover:text-primary-500">
+            {t('auth.signUpLink')}
+          </Link>
+        </p>
+      </main>
+    </div>
+  );
+};
+
+export default SharedNote;
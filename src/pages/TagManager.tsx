@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useNotes } from '../contexts/NotesContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { collectTags, normalizeTag } from '../utils/tags';
+import type { Note } from '../types/note';
+
+const TagManager: React.FC = () => {
+  const { notes, isLoading, isOnline, hasMore, fetchUnloadedNotes, renameTag } = useNotes();
+  const { t } = useLocale();
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Notes past the loaded pages, so counts cover every note; null until fetched
+  const [unloaded, setUnloaded] = useState<Note[] | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+
+  useEffect(() => {
+    if (isLoading || !hasMore || !isOnline) return;
+
+    let cancelled = false;
+    setIsCounting(true);
+    fetchUnloadedNotes()
+      .then((found) => {
+        if (!cancelled) setUnloaded(found);
+      })
+      .catch(() => {
+        if (!cancelled) setUnloaded(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsCounting(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, hasMore, isOnline, fetchUnloadedNotes]);
+
+  // Loaded copies win, as they may have changes the server doesn't yet
+  const tags = useMemo(() => {
+    if (!hasMore || !unloaded) return collectTags(notes);
+    const loadedIds = new Set(notes.map((note) => note._id));
+    return collectTags([...notes, ...unloaded.filter((note) => !loadedIds.has(note._id))]);
+  }, [notes, hasMore, unloaded]);
+
+  const isPartial = hasMore && !unloaded;
+  // Renaming reaches notes that aren't loaded through the server
+  const canRename = !hasMore || isOnline;
+
+  const startEditing = (tag: string) => {
+    setEditingTag(tag);
+    setNewName(tag);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTag) return;
+
+    const target = normalizeTag(newName);
+    if (!target) {
+      toast.error(t('tagManager.toast.emptyName'));
+      return;
+    }
+    if (target === editingTag) {
+      setEditingTag(null);
+      return;
+    }
+
+    const isMerge = tags.some(({ tag }) => tag === target);
+    if (isMerge && !window.confirm(t('tagManager.mergeConfirm', { from: editingTag, to: target }))) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const count = await renameTag(editingTag, target);
+      toast.success(
+        t(isMerge ? 'tagManager.toast.merged' : 'tagManager.toast.renamed', { from: editingTag, to: target, count })
+      );
+      setEditingTag(null);
+    } catch {
+      toast.error(t('tagManager.toast.renameFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-lg">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="px-4 py-3">
+          <div className="flex items-center space-x-3">
+            <Link to="/dashboard" className="text-gray-500 hover:text-gray-700" title={t('common.backToNotes')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-lg font-semibold text-gray-900">{t('tagManager.title')}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-6">
+        <p className="text-sm text-gray-600 mb-4">
+          {t('tagManager.description')}
+        </p>
+
+        {(isPartial || !canRename) && !isCounting && !isLoading && (
+          <div className="mb-4 space-y-1 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            {isPartial && <p>{t('tagManager.partialCounts')}</p>}
+            {!canRename && <p>{t('tagManager.renameOffline')}</p>}
+          </div>
+        )}
+
+        {isLoading || isCounting ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : tags.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">{t('tagManager.empty')}</p>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg shadow-sm border divide-y">
+            {tags.map(({ tag, count }) => (
+              <li key={tag} className="px-4 py-3">
+                {editingTag === tag ? (
+                  <form onSubmit={handleRename} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      list="existing-tags"
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      aria-label={t('tagManager.newName', { tag })}
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      {isSaving ? t('common.saving') : t('common.save')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingTag(null)}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      {t('common.cancel')}
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <Link
+                      to={`/dashboard?${new URLSearchParams({ tags: tag, tagMode: 'any' })}`}
+                      className="text-sm text-gray-900 hover:text-blue-600"
+                    >
+                      {tag}
+                      <span className="ms-2 text-xs text-gray-400">
+                        {t('tagManager.noteCount', { count })}
+                      </span>
+                    </Link>
+                    <button
+                      onClick={() => startEditing(tag)}
+                      disabled={!canRename}
+                      className="text-gray-400 hover:text-blue-600 p-1 disabled:opacity-50 disabled:hover:text-gray-400"
+                      title={t('tagManager.rename')}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <datalist id="existing-tags">
+          {tags.map(({ tag }) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </main>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -1,27 +1,26 @@
 import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { useNotes } from '../contexts/NotesContext';
 import { User, Mail, Calendar, LogOut } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
+import { ThemeToggle } from '../components/ThemeToggle';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { formatDate } from '../utils/i18n';
 
 const Welcome: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user } = useAuth();
+  const { signOut } = useNotes();
   const navigate = useNavigate();
+  const { t } = useLocale();
 
-  const handleLogout = () => {
-    logout();
-    toast.success('Logged out successfully!');
+  const handleLogout = async () => {
+    if (!(await signOut())) return;
+    toast.success(t('common.loggedOut'));
     navigate('/signin');
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       {/* Header */}
@@ -29,15 +28,19 @@ const Welcome: React.FC = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <div className="flex items-center">
-              <h1 className="text-2xl font-bold text-gray-900">Welcome</h1>
+              <h1 className="text-2xl font-bold text-gray-900">{t('welcome.title')}</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <LanguageSwitcher />
+              <ThemeToggle />
+              <button
+                onClick={handleLogout}
+                className="flex items-center space-x-2 text-gray-500 hover:text-gray-700"
+              >
+                <LogOut className="h-5 w-5" />
+                <span>{t('common.signOut')}</span>
+              </button>
             </div>
-            <button
-              onClick={handleLogout}
-              className="flex items-center space-x-2 text-gray-500 hover:text-gray-700"
-            >
-              <LogOut className="h-5 w-5" />
-              <span>Sign Out</span>
-            </button>
           </div>
         </div>
       </header>
@@ -51,21 +54,26 @@ const Welcome: React.FC = () => {
               <User className="h-12 w-12 text-white" />
             </div>
             <h2 className="text-3xl font-bold text-gray-900 mb-2">
-              Welcome, {user?.name}! 🎉
+              {t('welcome.greeting', { name: user?.name ?? '' })} 🎉
             </h2>
             <p className="text-gray-600 text-lg">
-              You have successfully signed up and logged in to Highway Notes
+              {t('welcome.subtitle')}
             </p>
           </div>
 
           {/* User Information */}
           <div className="bg-gray-50 rounded-xl p-6 mb-8">
-            <h3 className="text-xl font-semibold text-gray-900 mb-6">Your Information</h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-semibold text-gray-900">{t('welcome.yourInformation')}</h3>
+              <Link to="/settings" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+                {t('welcome.editProfile')}
+              </Link>
+            </div>
             <div className="space-y-4">
               <div className="flex items-center space-x-3">
                 <User className="h-5 w-5 text-gray-400" />
                 <div>
-                  <p className="text-sm text-gray-500">Full Name</p>
+                  <p className="text-sm text-gray-500">{t('welcome.fullName')}</p>
                   <p className="text-lg font-medium text-gray-900">{user?.name}</p>
                 </div>
               </div>
@@ -73,7 +81,7 @@ const Welcome: React.FC = () => {
               <div className="flex items-center space-x-3">
                 <Mail className="h-5 w-5 text-gray-400" />
                 <div>
-                  <p className="text-sm text-gray-500">Email Address</p>
+                  <p className="text-sm text-gray-500">{t('welcome.emailAddress')}</p>
                   <p className="text-lg font-medium text-gray-900">{user?.email}</p>
                 </div>
               </div>
@@ -82,9 +90,9 @@ const Welcome: React.FC = () => {
                 <div className="flex items-center space-x-3">
                   <Calendar className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-500">Date of Birth</p>
+                    <p className="text-sm text-gray-500">{t('profile.dateOfBirth')}</p>
                     <p className="text-lg font-medium text-gray-900">
-                      {formatDate(user.dateOfBirth)}
+                      {formatDate(user.dateOfBirth, { year: 'numeric', month: 'long', day: 'numeric' })}
                     </p>
                   </div>
                 </div>
@@ -95,8 +103,8 @@ const Welcome: React.FC = () => {
                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                 </div>
                 <div>
-                  <p className="text-sm text-gray-500">Account Status</p>
-                  <p className="text-lg font-medium text-green-600">Verified ✓</p>
+                  <p className="text-sm text-gray-500">{t('welcome.accountStatus')}</p>
+                  <p className="text-lg font-medium text-green-600">{t('welcome.verified')} ✓</p>
                 </div>
               </div>
             </div>
@@ -108,13 +116,13 @@ const Welcome: React.FC = () => {
               onClick={() => navigate('/dashboard')}
               className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 transform hover:scale-105"
             >
-              Go to Dashboard
+              {t('welcome.goToDashboard')}
             </button>
             <button
               onClick={() => navigate('/dashboard')}
               className="flex-1 bg-white border-2 border-gray-300 text-gray-700 px-6 py-3 rounded-lg font-medium hover:border-gray-400 hover:bg-gray-50 transition-all duration-200"
             >
-              Create Your First Note
+              {t('welcome.createFirstNote')}
             </button>
           </div>
         </div>
@@ -125,24 +133,24 @@ const Welcome: React.FC = () => {
             <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center mb-4">
               <User className="h-6 w-6 text-blue-600" />
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Secure Authentication</h3>
-            <p className="text-gray-600">Your account is protected with OTP-based authentication and Google OAuth.</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('welcome.feature.auth.title')}</h3>
+            <p className="text-gray-600">{t('welcome.feature.auth.body')}</p>
           </div>
           
           <div className="bg-white rounded-xl p-6 shadow-lg">
             <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center mb-4">
               <Mail className="h-6 w-6 text-green-600" />
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Email Verification</h3>
-            <p className="text-gray-600">Your email has been verified and you can now access all features.</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('welcome.feature.email.title')}</h3>
+            <p className="text-gray-600">{t('welcome.feature.email.body')}</p>
           </div>
           
           <div className="bg-white rounded-xl p-6 shadow-lg">
             <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center mb-4">
               <Calendar className="h-6 w-6 text-purple-600" />
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Personal Profile</h3>
-            <p className="text-gray-600">Your profile information is securely stored and ready to use.</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('welcome.feature.profile.title')}</h3>
+            <p className="text-gray-600">{t('welcome.feature.profile.body')}</p>
           </div>
         </div>
       </main>
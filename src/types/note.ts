@@ -0,0 +1,45 @@
+export interface Note {
+  _id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  isPinned: boolean;
+  isArchived: boolean;
+  // Set while the note is in the trash
+  deletedAt: string | null;
+  attachments: Attachment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A file uploaded to a note. Uploads and removals go straight to the server
+// rather than through the offline outbox.
+export interface Attachment {
+  _id: string;
+  noteId: string;
+  name: string;
+  // MIME type, e.g. image/png
+  type: string;
+  // In bytes
+  size: number;
+  // Where the server serves the file from; usable directly as an <img> src
+  url: string;
+  createdAt: string;
+}
+
+export type NoteInput = Pick<Note, 'title' | 'content' | 'tags'>;
+
+export type NoteChanges = Partial<NoteInput & Pick<Note, 'isPinned' | 'isArchived' | 'deletedAt'>>;
+
+// A saved revision of a note's text. The server keeps one per change, and
+// restoring an old one saves it again as the newest.
+export interface NoteVersion {
+  _id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: string;
+}
+
+export type SyncStatus = 'pending' | 'synced' | 'failed';
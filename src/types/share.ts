@@ -0,0 +1,13 @@
+import type { Note } from './note';
+
+export interface ShareLink {
+  token: string;
+  noteId: string;
+  noteTitle: string;
+  createdAt: string;
+  // null for links that never expire
+  expiresAt: string | null;
+}
+
+// What an unauthenticated visitor gets to see
+export type SharedNote = Pick<Note, 'title' | 'content' | 'tags' | 'updatedAt'>;
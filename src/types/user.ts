@@ -0,0 +1,7 @@
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  dateOfBirth?: string;
+  isEmailVerified: boolean;
+}
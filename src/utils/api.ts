@@ -1,6 +1,10 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { expireSession, getAccessToken, getCachedUser, getRefreshToken, setTokens } from './authSession';
+import { broadcastToTabs } from './tabSync';
+import { refreshResponseSchema } from './schemas';
 
-const API_BASE_URL =
+export const API_BASE_URL =
   import.meta.env.MODE === 'development'
     ? import.meta.env.VITE_API_URL_LOCAL
     : import.meta.env.VITE_API_URL_PROD;
@@ -12,24 +16,94 @@ export const api = axios.create({
   },
 });
 
-// Request interceptor (add token)
+// Opt-in mock backend for offline development and UI tests (VITE_USE_MOCK_API=true).
+// Loaded lazily so it never ends up in a normal build.
+if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+  api.defaults.adapter = async (config) => {
+    const { mockAdapter } = await import('./mockBackend');
+    return mockAdapter(config);
+  };
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Don't try to refresh the access token when this request gets a 401
+    skipAuthRefresh?: boolean;
+    // Set on the replay of a request after a token refresh
+    isAuthRetry?: boolean;
+  }
+}
+
+// Shared by every request that hits a 401 while a refresh is in flight, so the
+// refresh endpoint is called once and the rest wait for its result
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) throw new Error('No refresh token');
+
+      const { data } = await api.post('/auth/refresh', { refreshToken }, { skipAuthRefresh: true });
+      const result = refreshResponseSchema.parse(data);
+      setTokens(result.token, result.refreshToken);
+
+      // A rotated refresh token invalidates the old one, so other tabs need the new pair
+      const userId = getCachedUser()?.id;
+      if (userId) {
+        broadcastToTabs({ type: 'auth:tokens', userId, accessToken: result.token, refreshToken: result.refreshToken });
+      }
+      return result.token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Request interceptor (add token). Requests started during a refresh wait for
+// it so they don't go out with the expired token.
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
+  async (config) => {
+    if (refreshPromise && !config.skipAuthRefresh) {
+      await refreshPromise.catch(() => undefined);
+    }
+    const token = getAccessToken();
     if (token) config.headers.Authorization = `Bearer ${token}`;
     return config;
   },
   (error) => Promise.reject(error)
 );
 
-// Response interceptor (handle 401)
+// Response interceptor (handle 401): refresh the access token once and replay
+// the request; sign out only when that isn't possible
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/signin';
+  async (error) => {
+    const config = error.config as InternalAxiosRequestConfig | undefined;
+    if (error.response?.status !== 401 || !config || config.skipAuthRefresh) {
+      return Promise.reject(error);
     }
+
+    // Anonymous requests (e.g. a wrong OTP) have no session to refresh
+    if (!getAccessToken()) return Promise.reject(error);
+
+    if (!config.isAuthRetry) {
+      // Another request already refreshed the token while this one was in flight
+      const sentToken = String(config.headers.Authorization ?? '').replace(/^Bearer /, '');
+      if (sentToken !== getAccessToken()) return api.request({ ...config, isAuthRetry: true });
+
+      let refreshed = false;
+      try {
+        await refreshAccessToken();
+        refreshed = true;
+      } catch {
+        // Fall through to signing out
+      }
+      if (refreshed) return api.request({ ...config, isAuthRetry: true });
+    }
+
+    expireSession();
     return Promise.reject(error);
   }
 );
@@ -0,0 +1,216 @@
+import type { AxiosRequestConfig } from 'axios';
+import type { z } from 'zod';
+import { api } from './api';
+import { ApiError, toApiError } from './apiError';
+import {
+  attachmentResponseSchema,
+  authResponseSchema,
+  ignoredResponseSchema,
+  messageResponseSchema,
+  noteListResponseSchema,
+  noteResponseSchema,
+  noteVersionListResponseSchema,
+  sharedNoteResponseSchema,
+  shareLinkListResponseSchema,
+  shareLinkResponseSchema,
+  userResponseSchema
+} from './schemas';
+import type { NoteChanges, NoteInput } from '../types/note';
+
+// Typed wrappers around the REST API. Every function resolves with validated
+// data or rejects with an ApiError.
+
+const request = async <T extends z.ZodType>(schema: T, config: AxiosRequestConfig): Promise<z.output<T>> => {
+  let data: unknown;
+  try {
+    const response = await api.request(config);
+    data = response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiError({
+      code: 'INVALID_RESPONSE',
+      details: [
+        `${config.method?.toUpperCase()} ${config.url}`,
+        ...result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      ]
+    });
+  }
+  return result.data;
+};
+
+export interface RegisterPayload {
+  name: string;
+  email: string;
+  dateOfBirth?: string;
+}
+
+export interface ProfileChanges {
+  name?: string;
+  // YYYY-MM-DD, or null to clear it
+  dateOfBirth?: string | null;
+}
+
+export interface NoteListParams {
+  limit?: number;
+  cursor?: string;
+  // Search filters, see utils/search
+  q?: string;
+  field?: string;
+  from?: string;
+  to?: string;
+  tags?: string;
+  tagMode?: string;
+  view?: string;
+}
+
+export interface UploadOptions {
+  // Called with the fraction sent so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+  // Aborting it cancels the upload; the request then rejects with code CANCELLED
+  signal?: AbortSignal;
+}
+
+export const auth = {
+  register: (payload: RegisterPayload) =>
+    request(messageResponseSchema, { method: 'post', url: '/auth/register', data: payload }),
+
+  login: (email: string) =>
+    request(messageResponseSchema, { method: 'post', url: '/auth/login', data: { email } }),
+
+  requestOtp: (email: string) =>
+    request(messageResponseSchema, { method: 'post', url: '/auth/request-otp', data: { email } }),
+
+  verifyOtp: (email: string, otp: string) =>
+    request(authResponseSchema, { method: 'post', url: '/auth/verify-otp', data: { email, otp } }),
+
+  // Trade the one-time code from an identity provider redirect for tokens
+  exchangeOAuthCode: (provider: string, code: string, redirectUri: string) =>
+    request(authResponseSchema, {
+      method: 'post',
+      url: `/auth/${encodeURIComponent(provider)}/token`,
+      data: { code, redirectUri }
+    }),
+
+  me: async () => {
+    const { user } = await request(userResponseSchema, { method: 'get', url: '/auth/me' });
+    return user;
+  },
+
+  updateProfile: async (changes: ProfileChanges) => {
+    const { user } = await request(userResponseSchema, { method: 'put', url: '/auth/me', data: changes });
+    return user;
+  },
+
+  // Sends an OTP to the new address; the change only applies once it's confirmed
+  requestEmailChange: (email: string) =>
+    request(messageResponseSchema, { method: 'post', url: '/auth/change-email', data: { email } }),
+
+  confirmEmailChange: async (email: string, otp: string) => {
+    const { user } = await request(userResponseSchema, {
+      method: 'post',
+      url: '/auth/change-email/verify',
+      data: { email, otp }
+    });
+    return user;
+  }
+};
+
+export const notes = {
+  list: (params: NoteListParams = {}) =>
+    request(noteListResponseSchema, { method: 'get', url: '/notes', params }),
+
+  get: async (noteId: string) => {
+    const { note } = await request(noteResponseSchema, { method: 'get', url: `/notes/${noteId}` });
+    return note;
+  },
+
+  create: async (input: NoteInput & NoteChanges) => {
+    const { note } = await request(noteResponseSchema, { method: 'post', url: '/notes', data: input });
+    return note;
+  },
+
+  update: async (noteId: string, changes: NoteChanges) => {
+    const { note } = await request(noteResponseSchema, { method: 'put', url: `/notes/${noteId}`, data: changes });
+    return note;
+  },
+
+  remove: async (noteId: string) => {
+    await request(ignoredResponseSchema, { method: 'delete', url: `/notes/${noteId}` });
+  },
+
+  // Saved versions, newest (the note as it is now) first
+  listVersions: async (noteId: string) => {
+    const { versions } = await request(noteVersionListResponseSchema, {
+      method: 'get',
+      url: `/notes/${noteId}/versions`
+    });
+    return versions;
+  }
+};
+
+export const attachments = {
+  upload: (noteId: string, file: File, { onProgress, signal }: UploadOptions = {}) => {
+    const data = new FormData();
+    data.append('file', file);
+    return request(attachmentResponseSchema, {
+      method: 'post',
+      url: `/notes/${noteId}/attachments`,
+      data,
+      // Overrides the JSON default, which would make axios serialize the form;
+      // the browser then fills in the multipart boundary
+      headers: { 'Content-Type': 'multipart/form-data' },
+      signal,
+      onUploadProgress: (event) => {
+        if (event.total) onProgress?.(event.loaded / event.total);
+      }
+    });
+  },
+
+  // Deletes the stored file too; resolves with the updated note
+  remove: async (noteId: string, attachmentId: string) => {
+    const { note } = await request(noteResponseSchema, {
+      method: 'delete',
+      url: `/notes/${noteId}/attachments/${attachmentId}`
+    });
+    return note;
+  }
+};
+
+export const shares = {
+  // Every active link the user has created, or only those for one note
+  list: async (noteId?: string) => {
+    const { shares: links } = await request(shareLinkListResponseSchema, {
+      method: 'get',
+      url: '/shares',
+      params: noteId ? { noteId } : undefined
+    });
+    return links;
+  },
+
+  create: async (noteId: string, expiresAt: string | null) => {
+    const { share } = await request(shareLinkResponseSchema, {
+      method: 'post',
+      url: `/notes/${noteId}/shares`,
+      data: { expiresAt }
+    });
+    return share;
+  },
+
+  revoke: async (token: string) => {
+    await request(ignoredResponseSchema, { method: 'delete', url: `/shares/${encodeURIComponent(token)}` });
+  },
+
+  // Public: works without signing in, and a 401 here is not a session problem
+  getSharedNote: async (token: string) => {
+    const { note } = await request(sharedNoteResponseSchema, {
+      method: 'get',
+      url: `/shared/${encodeURIComponent(token)}`,
+      skipAuthRefresh: true
+    });
+    return note;
+  }
+};
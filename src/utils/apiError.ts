@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { t } from './i18n';
+
+// Every failed API call is normalized into an ApiError so pages never have to
+// dig through axios internals or guess at the server's error shape.
+
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'CANCELLED'
+  | 'BAD_REQUEST'
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN';
+
+interface ApiErrorOptions {
+  code: ApiErrorCode;
+  message?: string;
+  status?: number;
+  fieldErrors?: Record<string, string>;
+  details?: string[];
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status?: number;
+  // Per-field validation messages keyed by field name (e.g. `email`)
+  readonly fieldErrors: Record<string, string>;
+  // For INVALID_RESPONSE: the request, then each problem found in its response
+  readonly details: string[];
+  // Whether `message` came from the server rather than our defaults
+  readonly fromServer: boolean;
+
+  constructor({ code, message, status, fieldErrors = {}, details = [] }: ApiErrorOptions) {
+    super(message || t(`apiError.${code}`));
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.details = details;
+    this.fromServer = Boolean(message);
+  }
+}
+
+const codeForStatus = (status: number, hasFieldErrors: boolean): ApiErrorCode => {
+  if (status === 400) return hasFieldErrors ? 'VALIDATION_ERROR' : 'BAD_REQUEST';
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 422) return 'VALIDATION_ERROR';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+// The backend reports validation failures express-validator style: [{ path, msg }]
+const readFieldErrors = (data: unknown): Record<string, string> => {
+  const errors = (data as { errors?: unknown } | undefined)?.errors;
+  if (!Array.isArray(errors)) return {};
+
+  return errors.reduce<Record<string, string>>((fields, item) => {
+    const field = item?.path ?? item?.param;
+    if (typeof field === 'string' && typeof item?.msg === 'string' && !fields[field]) {
+      fields[field] = item.msg;
+    }
+    return fields;
+  }, {});
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError({ code: 'CANCELLED' });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError({ code: 'NETWORK_ERROR' });
+    }
+
+    const { status, data } = error.response;
+    const fieldErrors = readFieldErrors(data);
+    const serverMessage = (data as { message?: unknown } | undefined)?.message;
+
+    return new ApiError({
+      code: codeForStatus(status, Object.keys(fieldErrors).length > 0),
+      message: typeof serverMessage === 'string' ? serverMessage : undefined,
+      status,
+      fieldErrors
+    });
+  }
+
+  return new ApiError({ code: 'UNKNOWN' });
+};
+
+// Message for a toast: the server's explanation when it gave one, a
+// connection hint when it couldn't be reached, otherwise `fallback`
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  const apiError = toApiError(error);
+  if (apiError.fromServer || apiError.code === 'NETWORK_ERROR') return apiError.message;
+  return fallback;
+};
@@ -0,0 +1,65 @@
+import type { Attachment } from '../types/note';
+import type { MessageKey } from '../locales/en';
+import { formatNumber } from './i18n';
+
+// Limits for files attached to notes. The server enforces the same ones; checking
+// here saves uploading a file only to have it refused.
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_NOTE = 20;
+
+// SVG is left out on purpose: it can carry scripts
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const ATTACHMENT_TYPES = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/zip'
+];
+
+// Browsers don't know every type, and report an empty one for e.g. .md files
+const typesByExtension: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  zip: 'application/zip'
+};
+
+export const ATTACHMENT_ACCEPT = [...ATTACHMENT_TYPES, ...Object.keys(typesByExtension).map((ext) => `.${ext}`)].join(',');
+
+export const getFileType = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return typesByExtension[extension] ?? '';
+};
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'type'>) => IMAGE_TYPES.includes(attachment.type);
+
+// Why a file can't be attached, or null if it can
+export const checkAttachment = (file: File): MessageKey | null => {
+  if (!ATTACHMENT_TYPES.includes(getFileType(file))) return 'attachments.error.type';
+  if (file.size > MAX_ATTACHMENT_SIZE) return 'attachments.error.size';
+  if (file.size === 0) return 'attachments.error.empty';
+  return null;
+};
+
+const sizeUnits = ['byte', 'kilobyte', 'megabyte'] as const;
+
+// 1536 -> "1.5 kB", in the current locale
+export const formatFileSize = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < sizeUnits.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return formatNumber(value, {
+    style: 'unit',
+    unit: sizeUnits[unit],
+    unitDisplay: 'short',
+    maximumFractionDigits: unit === 0 ? 0 : 1
+  });
+};
@@ -0,0 +1,120 @@
+import type { User } from '../types/user';
+
+// Persisted sign-in state (tokens and the last known user) shared by the axios
+// client and AuthContext
+
+const ACCESS_TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+// When a remembered session started, for SESSION_MAX_AGE_MS
+const STARTED_AT_KEY = 'sessionStartedAt';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SESSION_DAYS = 30;
+const DEFAULT_IDLE_MINUTES = 30;
+
+// A positive number from the environment, or the fallback when it is unset,
+// empty or malformed (Number('') would be 0 and end sessions at once)
+const readPositive = (value: string | undefined, fallback: number): number => {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Remembered sessions end this long after sign-in however active the user is
+export const SESSION_MAX_AGE_MS = readPositive(import.meta.env.VITE_SESSION_MAX_AGE_DAYS, DEFAULT_SESSION_DAYS) * DAY_MS;
+
+// Sessions that aren't remembered sign out after this much inactivity. An
+// explicit 0 disables it.
+export const IDLE_TIMEOUT_MS = import.meta.env.VITE_IDLE_TIMEOUT_MINUTES?.trim() === '0'
+  ? 0
+  : readPositive(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES, DEFAULT_IDLE_MINUTES) * 60 * 1000;
+
+// How long before the idle sign-out the warning dialog appears
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// "Keep me logged in" sessions live in localStorage; the rest in sessionStorage
+// so they end when the browser closes
+const sessionStore = (): Storage =>
+  sessionStorage.getItem(ACCESS_TOKEN_KEY) !== null ? sessionStorage : localStorage;
+
+export const isRememberedSession = (): boolean => sessionStore() === localStorage;
+
+export const getAccessToken = (): string | null => sessionStore().getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null => sessionStore().getItem(REFRESH_TOKEN_KEY);
+
+export interface NewSession {
+  accessToken: string;
+  refreshToken?: string;
+  user: User;
+  remember: boolean;
+}
+
+export const startSession = ({ accessToken, refreshToken, user, remember }: NewSession): void => {
+  clearSession();
+  const storage = remember ? localStorage : sessionStorage;
+  storage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) storage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  storage.setItem(USER_KEY, JSON.stringify(user));
+  if (remember) storage.setItem(STARTED_AT_KEY, String(Date.now()));
+};
+
+// Servers that don't rotate refresh tokens omit one from the refresh response,
+// so the current one is kept unless a new one is given
+export const setTokens = (accessToken: string, refreshToken?: string | null): void => {
+  const storage = sessionStore();
+  storage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) storage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+// Remembered sessions from before SESSION_MAX_AGE_MS existed have no start
+// time and are treated as starting now
+export const hasSessionExceededMaxAge = (now = Date.now()): boolean => {
+  if (!getAccessToken() || !isRememberedSession()) return false;
+
+  const startedAt = Number(localStorage.getItem(STARTED_AT_KEY));
+  if (!startedAt) {
+    localStorage.setItem(STARTED_AT_KEY, String(now));
+    return false;
+  }
+  return now - startedAt > SESSION_MAX_AGE_MS;
+};
+
+export const getCachedUser = (): User | null => {
+  const cached = sessionStore().getItem(USER_KEY);
+  if (!cached) return null;
+  try {
+    return JSON.parse(cached);
+  } catch {
+    return null;
+  }
+};
+
+export const cacheUser = (user: User): void => {
+  sessionStore().setItem(USER_KEY, JSON.stringify(user));
+};
+
+export const clearSession = (): void => {
+  [localStorage, sessionStorage].forEach((storage) => {
+    [ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY, STARTED_AT_KEY].forEach((key) => storage.removeItem(key));
+  });
+};
+
+// The API client can't reach React state, so it reports an unrecoverable 401
+// here and AuthProvider signs the user out
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+export const expireSession = (): void => {
+  clearSession();
+  sessionExpiredListeners.forEach((listener) => listener());
+};
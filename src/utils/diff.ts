@@ -0,0 +1,54 @@
+// Line-based diff (longest common subsequence), used to compare note versions
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Trim the common head and tail so the table only covers what changed
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  // lengths[i][j]: LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = a[start + i] === b[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      result.push({ type: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      result.push({ type: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  a.slice(endA).forEach((text) => result.push({ type: 'same', text }));
+  return result;
+};
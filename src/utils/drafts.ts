@@ -0,0 +1,100 @@
+import type { Note, NoteInput } from '../types/note';
+
+// Locally autosaved editor contents, so a closed tab or an expired session
+// doesn't lose what was typed. Drafts are kept per user in localStorage and
+// keyed by what they belong to: `new:<id>` for the create form, `note:<id>`
+// for edits to an existing note.
+
+const STORAGE_PREFIX = 'drafts:';
+
+export interface NoteDraft extends NoteInput {
+  key: string;
+  // The note being edited, null for a note that hasn't been created yet
+  noteId: string | null;
+  // The note's updatedAt when editing started, to spot changes made elsewhere
+  baseUpdatedAt: string | null;
+  savedAt: string;
+}
+
+const storageKey = (userId: string) => STORAGE_PREFIX + userId;
+
+const readDrafts = (userId: string): Record<string, NoteDraft> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeDrafts = (userId: string, drafts: Record<string, NoteDraft>) => {
+  try {
+    if (Object.keys(drafts).length === 0) localStorage.removeItem(storageKey(userId));
+    else localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  } catch {
+    // Storage full or unavailable; the editor keeps working without drafts
+  }
+};
+
+export const newDraftKey = () => `new:${crypto.randomUUID()}`;
+
+export const noteDraftKey = (noteId: string) => `note:${noteId}`;
+
+export const isDraftEmpty = (input: NoteInput) => !input.title.trim() && !input.content.trim() && input.tags.length === 0;
+
+// Drafts for notes not created yet, newest first
+export const listNewNoteDrafts = (userId: string): NoteDraft[] => {
+  return Object.values(readDrafts(userId))
+    .filter((draft) => draft.noteId === null)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const getDraft = (userId: string, key: string): NoteDraft | null => readDrafts(userId)[key] ?? null;
+
+export const saveDraft = (userId: string, draft: Omit<NoteDraft, 'savedAt'>) => {
+  const drafts = readDrafts(userId);
+  drafts[draft.key] = { ...draft, savedAt: new Date().toISOString() };
+  writeDrafts(userId, drafts);
+};
+
+export const deleteDraft = (userId: string, key: string) => {
+  const drafts = readDrafts(userId);
+  if (!(key in drafts)) return;
+  delete drafts[key];
+  writeDrafts(userId, drafts);
+};
+
+// A note created offline gets its server id once it syncs, and its draft moves
+// along. Nothing can have changed the note elsewhere before then, so the draft is
+// based on the synced copy.
+export const moveNoteDraft = (userId: string, fromId: string, toId: string, baseUpdatedAt: string) => {
+  const drafts = readDrafts(userId);
+  const draft = drafts[noteDraftKey(fromId)];
+  if (!draft) return;
+
+  delete drafts[noteDraftKey(fromId)];
+  const existing = drafts[noteDraftKey(toId)];
+  if (!existing || existing.savedAt < draft.savedAt) {
+    drafts[noteDraftKey(toId)] = { ...draft, key: noteDraftKey(toId), noteId: toId, baseUpdatedAt };
+  }
+  writeDrafts(userId, drafts);
+};
+
+// Moves a draft's base past a change that left the text alone, e.g. an attachment
+export const rebaseNoteDraft = (userId: string, noteId: string, from: string, to: string) => {
+  const drafts = readDrafts(userId);
+  const draft = drafts[noteDraftKey(noteId)];
+  if (draft?.baseUpdatedAt !== from) return;
+  drafts[noteDraftKey(noteId)] = { ...draft, baseUpdatedAt: to };
+  writeDrafts(userId, drafts);
+};
+
+// True when the note was saved (here or elsewhere) after the draft was started
+export const hasServerChanged = (draft: NoteDraft, note: Note) => {
+  return draft.baseUpdatedAt !== null && draft.baseUpdatedAt !== note.updatedAt;
+};
+
+// True when the draft says something the note doesn't
+export const differsFromNote = (draft: NoteInput, note: Note) => {
+  return draft.title !== note.title || draft.content !== note.content || draft.tags.join(',') !== note.tags.join(',');
+};
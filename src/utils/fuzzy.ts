@@ -0,0 +1,37 @@
+// Fuzzy matching for the command palette: every character of the query must
+// appear in order. Matches at word starts and runs of consecutive characters
+// score higher; null means no match.
+
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 5;
+    previous = index;
+    position = index + 1;
+  }
+
+  // Prefer shorter texts when the match quality is otherwise the same
+  return score - haystack.length / 100;
+};
+
+export const fuzzyFilter = <T>(items: T[], query: string, getText: (item: T) => string): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((result): result is { item: T; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+};
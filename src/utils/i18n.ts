@@ -0,0 +1,66 @@
+import { en } from '../locales/en';
+import { ar } from '../locales/ar';
+import type { MessageKey, Messages, PluralMessage } from '../locales/en';
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, locales } from '../config/locales';
+import type { Locale, LocaleOption } from '../config/locales';
+
+// Translation and locale-aware formatting. Components get `t` from useLocale()
+// so they re-render when the language changes; code outside React (toasts,
+// validation rules, API errors) imports it from here.
+
+const catalogs: Record<Locale, Messages> = { en, ar };
+
+type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const isLocale = (value: string | null): value is Locale => locales.some((option) => option.id === value);
+
+// The saved choice, then the browser's preferred languages
+export const detectLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getLocaleOption = (locale: Locale = currentLocale): LocaleOption =>
+  locales.find((option) => option.id === locale) ?? locales[0];
+
+export const setCurrentLocale = (locale: Locale) => {
+  currentLocale = locale;
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(currentLocale, options).format(value);
+
+export const formatDate = (value: string | number | Date, options: Intl.DateTimeFormatOptions): string =>
+  new Intl.DateTimeFormat(currentLocale, options).format(new Date(value));
+
+const pickPlural = (locale: Locale, message: PluralMessage, count: number): string =>
+  message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+
+// Looks up `key` in `locale` (falling back to English) and fills
+// {placeholders} from `params`. Plural messages choose their form by
+// params.count. Numbers are formatted for the locale.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = catalogs[locale][key] ?? en[key];
+  const template = typeof message === 'string' ? message : pickPlural(locale, message, Number(params.count));
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  });
+};
+
+// `translate` in the current language
+export const t: Translate = (key, params) => translate(currentLocale, key, params);
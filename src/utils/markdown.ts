@@ -0,0 +1,32 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// Markdown rendering for note content. Everything goes through DOMPurify so raw
+// HTML in a note can never run script.
+
+marked.setOptions({
+  gfm: true,
+  breaks: true
+});
+
+// Links in notes open in a new tab without handing it a reference to this window
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+export const renderMarkdown = (content: string): string => {
+  const html = marked.parse(content, { async: false });
+  return DOMPurify.sanitize(html, { USE_PROFILES: { html: true } });
+};
+
+// Plain-text version of a note for previews that can't hold markup (e.g. search highlighting)
+export const stripMarkdown = (content: string): string => {
+  // Keep block boundaries as spaces so adjacent paragraphs don't run together
+  const html = renderMarkdown(content).replace(/<\/(p|h[1-6]|li|pre|blockquote|tr)>|<br\s*\/?>/g, '$& ');
+  // DOMParser builds an inert document: nothing in it loads or executes
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,571 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Attachment, Note, NoteChanges, NoteVersion } from '../types/note';
+import type { ShareLink } from '../types/share';
+import type { User } from '../types/user';
+import { MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_NOTE } from './attachments';
+import { isInView, isPurged } from './notes';
+import type { NoteView } from './notes';
+import { filterNotes, parseFilters } from './search';
+
+// In-browser stand-in for the REST API, enabled with VITE_USE_MOCK_API=true.
+// Everything lives in memory and is lost on reload; the OTP is always MOCK_OTP.
+
+export const MOCK_OTP = '123456';
+
+const LATENCY_MS = 300;
+// Short enough to exercise the refresh flow during a normal session
+const ACCESS_TOKEN_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+// Uploads report progress in steps at roughly this speed
+const UPLOAD_BYTES_PER_SECOND = 2 * 1024 * 1024;
+const UPLOAD_STEPS = 10;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  body: Record<string, unknown>;
+  user: User | null;
+}
+
+interface MockShare {
+  token: string;
+  noteId: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+interface MockResult {
+  status: number;
+  data: unknown;
+}
+
+const users = new Map<string, User>();
+const notesByUser = new Map<string, Note[]>();
+const pendingOtps = new Set<string>();
+// New address -> current address, for email changes awaiting their OTP
+const pendingEmailChanges = new Map<string, string>();
+// Old address -> new address, so tokens issued before a change keep working
+const emailAliases = new Map<string, string>();
+const sharesByToken = new Map<string, MockShare>();
+// Oldest first
+const versionsByNote = new Map<string, NoteVersion[]>();
+
+const json = (status: number, data: unknown): MockResult => ({ status, data });
+
+const fail = (status: number, message: string): MockResult => json(status, { message });
+
+// Same shape as express-validator errors from the real API
+const validationFailed = (path: string, msg: string): MockResult =>
+  json(400, { message: 'Validation failed', errors: [{ path, msg }] });
+
+// Tokens just carry the email (and an expiry for access tokens), so a page
+// reload keeps the session even though the user store itself was reset
+const accessTokenFor = (email: string) => `mock.${encodeURIComponent(email)}.${Date.now() + ACCESS_TOKEN_TTL_MS}`;
+
+const refreshTokenFor = (email: string) => `mock-refresh.${encodeURIComponent(email)}`;
+
+// Derived from the email so a restored user keeps the same id across reloads
+const userIdFor = (email: string) => `mock-user-${encodeURIComponent(email)}`;
+
+const restoreUser = (tokenEmail: string): User => {
+  const email = emailAliases.get(tokenEmail) ?? tokenEmail;
+  if (!users.has(email)) {
+    users.set(email, { id: userIdFor(email), email, name: email.split('@')[0], isEmailVerified: true });
+  }
+  return users.get(email) as User;
+};
+
+const userFromToken = (authorization: string): User | null => {
+  const match = /^Bearer mock\.(.+)\.(\d+)$/.exec(authorization);
+  if (!match || Number(match[2]) < Date.now()) return null;
+  return restoreUser(decodeURIComponent(match[1]));
+};
+
+const readEmail = (body: Record<string, unknown>): string =>
+  typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+// Everything kept alongside a note goes when the note itself does
+const discardNoteData = (note: Note) => {
+  note.attachments.forEach((attachment) => URL.revokeObjectURL(attachment.url));
+  versionsByNote.delete(note._id);
+  sharesByToken.forEach((share, token) => {
+    if (share.noteId === note._id) sharesByToken.delete(token);
+  });
+};
+
+const userNotes = (user: User): Note[] => {
+  let notes = notesByUser.get(user.id);
+  if (!notes) {
+    notes = [];
+    notesByUser.set(user.id, notes);
+  }
+
+  // Mirror the server's trash retention
+  const kept = notes.filter((note) => !isPurged(note));
+  if (kept.length !== notes.length) {
+    notes.filter((note) => !kept.includes(note)).forEach(discardNoteData);
+    notes = kept;
+    notesByUser.set(user.id, notes);
+  }
+  return notes;
+};
+
+const pickChanges = (body: Record<string, unknown>): NoteChanges => {
+  const changes: NoteChanges = {};
+  if (typeof body.title === 'string') changes.title = body.title;
+  if (typeof body.content === 'string') changes.content = body.content;
+  if (Array.isArray(body.tags)) changes.tags = body.tags.filter((tag): tag is string => typeof tag === 'string');
+  if (typeof body.isPinned === 'boolean') changes.isPinned = body.isPinned;
+  if (typeof body.isArchived === 'boolean') changes.isArchived = body.isArchived;
+  if (body.deletedAt === null || typeof body.deletedAt === 'string') changes.deletedAt = body.deletedAt;
+  return changes;
+};
+
+// Every change to the text is kept, so a restore never loses a version
+const recordVersion = (note: Note) => {
+  const versions = versionsByNote.get(note._id) ?? [];
+  versions.push({
+    _id: crypto.randomUUID().replace(/-/g, '').slice(0, 24),
+    noteId: note._id,
+    title: note.title,
+    content: note.content,
+    tags: [...note.tags],
+    createdAt: note.updatedAt
+  });
+  versionsByNote.set(note._id, versions);
+};
+
+// Auth routes. Registering and signing in both send an OTP, like the real API.
+
+const issueOtp = (email: string) => {
+  pendingOtps.add(email);
+  console.info(`[mock api] OTP for ${email}: ${MOCK_OTP}`);
+};
+
+const register = ({ body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return validationFailed('name', 'Name is required');
+  if (!email) return validationFailed('email', 'Email is required');
+  if (users.has(email)) return validationFailed('email', 'User with this email already exists');
+
+  users.set(email, {
+    id: userIdFor(email),
+    email,
+    name,
+    dateOfBirth: typeof body.dateOfBirth === 'string' ? body.dateOfBirth : undefined,
+    isEmailVerified: false
+  });
+  issueOtp(email);
+  return json(201, { message: 'Registration successful. Please verify your email.' });
+};
+
+const login = ({ body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  if (!users.has(email)) return fail(404, 'No account found with this email');
+
+  issueOtp(email);
+  return json(200, { message: 'OTP sent to your email' });
+};
+
+const requestOtp = ({ body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  if (!users.has(email)) return fail(404, 'No account found with this email');
+
+  issueOtp(email);
+  return json(200, { message: 'OTP sent to your email' });
+};
+
+const verifyOtp = ({ body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  const user = users.get(email);
+  if (!user || !pendingOtps.has(email) || body.otp !== MOCK_OTP) {
+    return fail(400, 'Invalid or expired OTP');
+  }
+
+  pendingOtps.delete(email);
+  user.isEmailVerified = true;
+  return json(200, { token: accessTokenFor(email), refreshToken: refreshTokenFor(email), user });
+};
+
+// Identity provider sign-in: the mock "provider" sends back `mock-<provider>`
+const exchangeOAuthCode = (provider: string, { body }: MockRequest): MockResult => {
+  if (body.code !== `mock-${provider}`) return fail(400, 'Invalid sign-in code');
+
+  const email = `${provider}.user@example.com`;
+  const user = restoreUser(email);
+  return json(200, { token: accessTokenFor(email), refreshToken: refreshTokenFor(email), user });
+};
+
+const refresh = ({ body }: MockRequest): MockResult => {
+  const match = typeof body.refreshToken === 'string' ? /^mock-refresh\.(.+)$/.exec(body.refreshToken) : null;
+  if (!match) return fail(401, 'Invalid refresh token');
+
+  const { email } = restoreUser(decodeURIComponent(match[1]));
+  return json(200, { token: accessTokenFor(email), refreshToken: refreshTokenFor(email) });
+};
+
+// Note routes, all of which require `user`
+
+const listNotes = (user: User, { params }: MockRequest): MockResult => {
+  const search = new URLSearchParams(params);
+  const view = params.view as NoteView | undefined;
+
+  let notes = [...userNotes(user)].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  if (view) notes = notes.filter((note) => isInView(note, view));
+  notes = filterNotes(notes, parseFilters(search));
+
+  // The cursor is the id of the last note on the previous page
+  const start = params.cursor ? notes.findIndex((note) => note._id === params.cursor) + 1 : 0;
+  const limit = Number(params.limit) || DEFAULT_PAGE_SIZE;
+  const page = notes.slice(start, start + limit);
+  const hasMore = start + limit < notes.length;
+
+  return json(200, { notes: page, nextCursor: hasMore ? page[page.length - 1]._id : null });
+};
+
+const createNote = (user: User, { body }: MockRequest): MockResult => {
+  const changes = pickChanges(body);
+  if (!changes.title?.trim()) return validationFailed('title', 'Title is required');
+
+  const now = new Date().toISOString();
+  const note: Note = {
+    _id: crypto.randomUUID().replace(/-/g, '').slice(0, 24),
+    title: changes.title,
+    content: changes.content ?? '',
+    tags: changes.tags ?? [],
+    isPinned: changes.isPinned ?? false,
+    isArchived: changes.isArchived ?? false,
+    deletedAt: changes.deletedAt ?? null,
+    attachments: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  userNotes(user).push(note);
+  recordVersion(note);
+  return json(201, { note });
+};
+
+const getNote = (user: User, noteId: string): MockResult => {
+  const note = userNotes(user).find((n) => n._id === noteId);
+  return note ? json(200, { note }) : fail(404, 'Note not found');
+};
+
+const updateNote = (user: User, noteId: string, { body }: MockRequest): MockResult => {
+  const note = userNotes(user).find((n) => n._id === noteId);
+  if (!note) return fail(404, 'Note not found');
+
+  const changes = pickChanges(body);
+  const changesText =
+    (changes.title !== undefined && changes.title !== note.title) ||
+    (changes.content !== undefined && changes.content !== note.content) ||
+    (changes.tags !== undefined && changes.tags.join('\n') !== note.tags.join('\n'));
+
+  Object.assign(note, changes, { updatedAt: new Date().toISOString() });
+  if (changesText) recordVersion(note);
+  return json(200, { note });
+};
+
+const deleteNote = (user: User, noteId: string): MockResult => {
+  const notes = userNotes(user);
+  const index = notes.findIndex((n) => n._id === noteId);
+  if (index === -1) return fail(404, 'Note not found');
+
+  const [note] = notes.splice(index, 1);
+  discardNoteData(note);
+  return json(200, { message: 'Note deleted' });
+};
+
+const listVersions = (user: User, noteId: string): MockResult => {
+  if (!userNotes(user).some((n) => n._id === noteId)) return fail(404, 'Note not found');
+  return json(200, { versions: [...(versionsByNote.get(noteId) ?? [])].reverse() });
+};
+
+// Attachment routes. Files are kept as object URLs, which only live as long as the page.
+
+const uploadAttachment = (user: User, noteId: string, { body }: MockRequest): MockResult => {
+  const note = userNotes(user).find((n) => n._id === noteId);
+  if (!note) return fail(404, 'Note not found');
+  if (note.deletedAt !== null) return fail(400, 'Notes in the trash cannot be changed');
+
+  const file = body.file;
+  if (!(file instanceof File)) return validationFailed('file', 'A file is required');
+  if (file.size > MAX_ATTACHMENT_SIZE) return validationFailed('file', 'The file is too large');
+  if (note.attachments.length >= MAX_ATTACHMENTS_PER_NOTE) {
+    return validationFailed('file', 'This note has too many attachments');
+  }
+
+  const now = new Date().toISOString();
+  const attachment: Attachment = {
+    _id: crypto.randomUUID().replace(/-/g, '').slice(0, 24),
+    noteId,
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    url: URL.createObjectURL(file),
+    createdAt: now
+  };
+  note.attachments.push(attachment);
+  note.updatedAt = now;
+  return json(201, { attachment, note });
+};
+
+const removeAttachment = (user: User, noteId: string, attachmentId: string): MockResult => {
+  const note = userNotes(user).find((n) => n._id === noteId);
+  const attachment = note?.attachments.find((a) => a._id === attachmentId);
+  if (!note || !attachment) return fail(404, 'Attachment not found');
+  if (note.deletedAt !== null) return fail(400, 'Notes in the trash cannot be changed');
+
+  URL.revokeObjectURL(attachment.url);
+  note.attachments = note.attachments.filter((a) => a !== attachment);
+  note.updatedAt = new Date().toISOString();
+  return json(200, { note });
+};
+
+// Share routes. Links to a trashed or expired note stop working but aren't deleted.
+
+const sharedNoteFor = (share: MockShare): Note | undefined => {
+  const isExpired = share.expiresAt !== null && new Date(share.expiresAt).getTime() <= Date.now();
+  if (isExpired) return undefined;
+  return notesByUser.get(share.userId)?.find((note) => note._id === share.noteId && note.deletedAt === null);
+};
+
+const toShareLink = (share: MockShare, note: Note): ShareLink => ({
+  token: share.token,
+  noteId: share.noteId,
+  noteTitle: note.title,
+  createdAt: share.createdAt,
+  expiresAt: share.expiresAt
+});
+
+const listShares = (user: User, { params }: MockRequest): MockResult => {
+  const links: ShareLink[] = [];
+  sharesByToken.forEach((share) => {
+    const note = share.userId === user.id ? sharedNoteFor(share) : undefined;
+    if (note && (!params.noteId || share.noteId === params.noteId)) links.push(toShareLink(share, note));
+  });
+  links.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return json(200, { shares: links });
+};
+
+const createShare = (user: User, noteId: string, { body }: MockRequest): MockResult => {
+  const note = userNotes(user).find((n) => n._id === noteId);
+  if (!note) return fail(404, 'Note not found');
+  if (note.deletedAt !== null) return fail(400, 'Notes in the trash cannot be shared');
+
+  const expiresAt = typeof body.expiresAt === 'string' ? body.expiresAt : null;
+  if (expiresAt !== null && !(new Date(expiresAt).getTime() > Date.now())) {
+    return validationFailed('expiresAt', 'Expiry must be in the future');
+  }
+
+  const share: MockShare = {
+    token: crypto.randomUUID().replace(/-/g, ''),
+    noteId,
+    userId: user.id,
+    createdAt: new Date().toISOString(),
+    expiresAt
+  };
+  sharesByToken.set(share.token, share);
+  return json(201, { share: toShareLink(share, note) });
+};
+
+const revokeShare = (user: User, token: string): MockResult => {
+  const share = sharesByToken.get(token);
+  if (!share || share.userId !== user.id) return fail(404, 'Share link not found');
+
+  sharesByToken.delete(token);
+  return json(200, { message: 'Share link revoked' });
+};
+
+// Public, so it answers 404 for unknown, revoked and expired links alike
+const getSharedNote = (token: string): MockResult => {
+  const share = sharesByToken.get(token);
+  const note = share && sharedNoteFor(share);
+  if (!note) return fail(404, 'This link has expired or was revoked');
+
+  const { title, content, tags, updatedAt } = note;
+  return json(200, { note: { title, content, tags, updatedAt } });
+};
+
+// Profile routes, all of which require `user`
+
+const updateProfile = (user: User, { body }: MockRequest): MockResult => {
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) return validationFailed('name', 'Name is required');
+    user.name = name;
+  }
+  if (body.dateOfBirth !== undefined) {
+    user.dateOfBirth = typeof body.dateOfBirth === 'string' && body.dateOfBirth ? body.dateOfBirth : undefined;
+  }
+  return json(200, { user });
+};
+
+const requestEmailChange = (user: User, { body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  if (!email) return validationFailed('email', 'Email is required');
+  if (email === user.email) return validationFailed('email', 'This is already your email address');
+  if (users.has(email)) return validationFailed('email', 'User with this email already exists');
+
+  pendingEmailChanges.set(email, user.email);
+  issueOtp(email);
+  return json(200, { message: 'OTP sent to your new email' });
+};
+
+const confirmEmailChange = (user: User, { body }: MockRequest): MockResult => {
+  const email = readEmail(body);
+  if (pendingEmailChanges.get(email) !== user.email || !pendingOtps.has(email) || body.otp !== MOCK_OTP) {
+    return fail(400, 'Invalid or expired OTP');
+  }
+  if (users.has(email)) return validationFailed('email', 'User with this email already exists');
+
+  pendingOtps.delete(email);
+  pendingEmailChanges.delete(email);
+  users.delete(user.email);
+  emailAliases.set(user.email, email);
+  user.email = email;
+  users.set(email, user);
+  return json(200, { user });
+};
+
+const route = (request: MockRequest): MockResult => {
+  const { method, path, user } = request;
+
+  if (method === 'post' && path === '/auth/register') return register(request);
+  if (method === 'post' && path === '/auth/login') return login(request);
+  if (method === 'post' && path === '/auth/request-otp') return requestOtp(request);
+  if (method === 'post' && path === '/auth/verify-otp') return verifyOtp(request);
+  if (method === 'post' && path === '/auth/refresh') return refresh(request);
+
+  const oauthProvider = /^\/auth\/([^/]+)\/token$/.exec(path)?.[1];
+  if (method === 'post' && oauthProvider) return exchangeOAuthCode(oauthProvider, request);
+
+  const sharedToken = /^\/shared\/([^/]+)$/.exec(path)?.[1];
+  if (method === 'get' && sharedToken) return getSharedNote(decodeURIComponent(sharedToken));
+
+  if (
+    path === '/auth/me' ||
+    path.startsWith('/auth/change-email') ||
+    path.startsWith('/notes') ||
+    path.startsWith('/shares')
+  ) {
+    if (!user) return fail(401, 'Not authorized');
+
+    if (method === 'get' && path === '/auth/me') return json(200, { user });
+    if (method === 'put' && path === '/auth/me') return updateProfile(user, request);
+    if (method === 'post' && path === '/auth/change-email') return requestEmailChange(user, request);
+    if (method === 'post' && path === '/auth/change-email/verify') return confirmEmailChange(user, request);
+    if (method === 'get' && path === '/notes') return listNotes(user, request);
+    if (method === 'post' && path === '/notes') return createNote(user, request);
+    if (method === 'get' && path === '/shares') return listShares(user, request);
+
+    const shareToken = /^\/shares\/([^/]+)$/.exec(path)?.[1];
+    if (method === 'delete' && shareToken) return revokeShare(user, decodeURIComponent(shareToken));
+
+    const sharedNoteId = /^\/notes\/([^/]+)\/shares$/.exec(path)?.[1];
+    if (method === 'post' && sharedNoteId) return createShare(user, sharedNoteId, request);
+
+    const attachedNoteId = /^\/notes\/([^/]+)\/attachments$/.exec(path)?.[1];
+    if (method === 'post' && attachedNoteId) return uploadAttachment(user, attachedNoteId, request);
+
+    const attachmentPath = /^\/notes\/([^/]+)\/attachments\/([^/]+)$/.exec(path);
+    if (method === 'delete' && attachmentPath) return removeAttachment(user, attachmentPath[1], attachmentPath[2]);
+
+    const versionedNoteId = /^\/notes\/([^/]+)\/versions$/.exec(path)?.[1];
+    if (method === 'get' && versionedNoteId) return listVersions(user, versionedNoteId);
+
+    const noteId = /^\/notes\/([^/]+)$/.exec(path)?.[1];
+    if (noteId) {
+      if (method === 'get') return getNote(user, noteId);
+      if (method === 'put') return updateNote(user, noteId, request);
+      if (method === 'delete') return deleteNote(user, noteId);
+    }
+  }
+
+  return fail(404, `Cannot ${method.toUpperCase()} ${path}`);
+};
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (data instanceof FormData) return Object.fromEntries(data);
+  if (typeof data !== 'string') return (data as Record<string, unknown>) ?? {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    return {};
+  }
+};
+
+const toParams = (params: unknown): Record<string, string> => {
+  const result: Record<string, string> = {};
+  Object.entries((params as Record<string, unknown>) ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) result[key] = String(value);
+  });
+  return result;
+};
+
+const wait = (ms: number, signal?: InternalAxiosRequestConfig['signal']) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.('abort', () => {
+      clearTimeout(timer);
+      reject(new AxiosError('canceled', AxiosError.ERR_CANCELED));
+    });
+  });
+
+// Reports progress the way a real upload would, so the progress bar and
+// cancelling can be tried out
+const simulateUpload = async (config: InternalAxiosRequestConfig, data: FormData) => {
+  const file = data.get('file');
+  const total = file instanceof File ? file.size : 0;
+  const stepMs = (total / UPLOAD_BYTES_PER_SECOND) * 1000 / UPLOAD_STEPS;
+
+  for (let step = 1; step <= UPLOAD_STEPS; step++) {
+    await wait(stepMs, config.signal);
+    const loaded = Math.round((total * step) / UPLOAD_STEPS);
+    config.onUploadProgress?.({
+      loaded,
+      total,
+      progress: total ? loaded / total : 1,
+      bytes: Math.round(total / UPLOAD_STEPS),
+      upload: true,
+      lengthComputable: true
+    });
+  }
+};
+
+// Axios adapter: answers the request from the in-memory store instead of the network
+export const mockAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  if (config.data instanceof FormData) await simulateUpload(config, config.data);
+  await wait(LATENCY_MS, config.signal);
+
+  const url = new URL(config.url ?? '', 'http://mock.local');
+  const authorization = AxiosHeaders.from(config.headers).get('Authorization');
+  const { status, data } = route({
+    method: (config.method ?? 'get').toLowerCase(),
+    path: url.pathname.replace(/\/+$/, '') || '/',
+    params: { ...Object.fromEntries(url.searchParams), ...toParams(config.params) },
+    body: parseBody(config.data),
+    user: typeof authorization === 'string' ? userFromToken(authorization) : null
+  });
+
+  // Round-trip through JSON so callers never share objects with the store
+  const response: AxiosResponse = {
+    data: JSON.parse(JSON.stringify(data)),
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+    request: {}
+  };
+
+  if (status >= 400) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, response.request, response);
+  }
+  return response;
+};
+
+console.info(`[mock api] Mock backend enabled. Every OTP is ${MOCK_OTP}.`);
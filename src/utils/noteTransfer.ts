@@ -0,0 +1,287 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { z } from 'zod';
+import type { Note } from '../types/note';
+import { formatFileSize } from './attachments';
+import { t } from './i18n';
+import { MAX_TAGS_PER_NOTE, normalizeTag } from './tags';
+
+// Moving notes in and out of the app: Markdown files with front-matter, a
+// single JSON document, or a ZIP bundle of either.
+
+export type ExportFormat = 'markdown' | 'json';
+
+export interface ImportedNote {
+  title: string;
+  content: string;
+  tags: string[];
+  isPinned: boolean;
+  isArchived: boolean;
+  // File (or ZIP entry) the note came from, shown in the import preview
+  source: string;
+}
+
+export interface ImportResult {
+  notes: ImportedNote[];
+  // One line per file that could not be read
+  errors: string[];
+}
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.json,.zip';
+
+const MAX_TITLE_LENGTH = 200;
+// Everything is read on the main thread, so oversized files and archives that
+// unpack to far more than they weigh (zip bombs) are refused
+const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+const MAX_UNPACKED_SIZE = 50 * 1024 * 1024;
+const EXPORT_VERSION = 1;
+
+// --- Export ---
+
+const toMarkdown = (note: Note): string => {
+  const lines = [
+    '---',
+    `title: ${JSON.stringify(note.title)}`,
+    `created: ${note.createdAt}`,
+    `updated: ${note.updatedAt}`
+  ];
+  if (note.tags.length > 0) lines.push(`tags: ${JSON.stringify(note.tags)}`);
+  if (note.isPinned) lines.push('pinned: true');
+  if (note.isArchived) lines.push('archived: true');
+  lines.push('---', '', note.content);
+  return `${lines.join('\n')}\n`;
+};
+
+const toJson = (notes: Note[]): string => {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      notes: notes.map(({ title, content, tags, isPinned, isArchived, createdAt, updatedAt }) => ({
+        title,
+        content,
+        tags,
+        isPinned,
+        isArchived,
+        createdAt,
+        updatedAt
+      }))
+    },
+    null,
+    2
+  );
+};
+
+// Safe on every OS, and unique within one export
+const toFileNames = (notes: Note[]): string[] => {
+  const used = new Set<string>();
+  return notes.map((note) => {
+    const base = note.title
+      .replace(/[\\/:*?"<>|]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .slice(0, 80) || 'untitled';
+
+    let name = `${base}.md`;
+    for (let count = 2; used.has(name.toLowerCase()); count++) {
+      name = `${base}-${count}.md`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const datedName = (extension: string) => `notes-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+const downloadFile = (fileName: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Several Markdown files always need a ZIP; JSON holds any number of notes
+// in one file and is only zipped on request.
+export const exportNotes = (notes: Note[], format: ExportFormat, zip: boolean) => {
+  if (format === 'markdown') {
+    const names = toFileNames(notes);
+    if (notes.length === 1 && !zip) {
+      downloadFile(names[0], toMarkdown(notes[0]), 'text/markdown');
+      return;
+    }
+    const files = Object.fromEntries(names.map((name, index) => [name, strToU8(toMarkdown(notes[index]))]));
+    downloadFile(datedName('zip'), zipSync(files), 'application/zip');
+    return;
+  }
+
+  const json = toJson(notes);
+  if (zip) {
+    downloadFile(datedName('zip'), zipSync({ 'notes.json': strToU8(json) }), 'application/zip');
+  } else {
+    downloadFile(notes.length === 1 ? toFileNames(notes)[0].replace(/\.md$/, '.json') : datedName('json'), json, 'application/json');
+  }
+};
+
+// --- Import ---
+
+const exportedNoteSchema = z.object({
+  title: z.string().default(''),
+  content: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  isPinned: z.boolean().default(false),
+  isArchived: z.boolean().default(false)
+});
+
+// Our own export format, or a bare array of notes from elsewhere
+const jsonImportSchema = z.union([
+  z.object({ notes: z.array(exportedNoteSchema) }),
+  z.array(exportedNoteSchema).transform((notes) => ({ notes }))
+]);
+
+const titleFromFileName = (fileName: string) => {
+  return fileName.replace(/^.*\//, '').replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+};
+
+const cleanNote = (note: Omit<ImportedNote, 'source'>, source: string): ImportedNote => ({
+  ...note,
+  title: (note.title.trim() || titleFromFileName(source) || t('common.untitled')).slice(0, MAX_TITLE_LENGTH),
+  tags: [...new Set(note.tags.map(normalizeTag).filter(Boolean))].slice(0, MAX_TAGS_PER_NOTE),
+  source
+});
+
+const parseFrontMatterValue = (value: string): unknown => {
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value.startsWith('"') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Hand-written YAML lists like [work, ideas]
+      if (value.startsWith('[')) return value.slice(1, -1).split(',').map((item) => item.trim().replace(/^["']|["']$/g, ''));
+    }
+  }
+  return value.replace(/^'(.*)'$/, '$1');
+};
+
+// Only the flat `key: value` front-matter we write ourselves (and most other
+// apps) is understood; anything else is left in the content.
+const parseMarkdown = (text: string, source: string): ImportedNote => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  const meta: Record<string, unknown> = {};
+  if (match) {
+    match[1].split(/\r?\n/).forEach((line) => {
+      const field = line.match(/^(\w+):\s*(.*)$/);
+      if (field) meta[field[1].toLowerCase()] = parseFrontMatterValue(field[2].trim());
+    });
+  }
+
+  let content = (match ? text.slice(match[0].length) : text).trim();
+  let title = typeof meta.title === 'string' ? meta.title : '';
+  // Without a title in the front-matter, a leading heading names the note
+  if (!title) {
+    const heading = content.match(/^#\s+(.+)\r?\n?/);
+    if (heading) {
+      title = heading[1];
+      content = content.slice(heading[0].length).trim();
+    }
+  }
+
+  return cleanNote(
+    {
+      title,
+      content,
+      tags: Array.isArray(meta.tags) ? meta.tags.map(String) : typeof meta.tags === 'string' ? meta.tags.split(',') : [],
+      isPinned: meta.pinned === true,
+      isArchived: meta.archived === true
+    },
+    source
+  );
+};
+
+const parseText = (text: string, source: string): ImportedNote => {
+  return cleanNote({ title: '', content: text.trim(), tags: [], isPinned: false, isArchived: false }, source);
+};
+
+const parseJson = (text: string, source: string): ImportedNote[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('import.error.invalidJson'));
+  }
+
+  const result = jsonImportSchema.safeParse(data);
+  if (!result.success) throw new Error(t('import.error.notAnExport'));
+  return result.data.notes.map((note) => cleanNote(note, source));
+};
+
+const extensionOf = (fileName: string) => fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+
+const parseEntry = (fileName: string, text: string): ImportedNote[] => {
+  switch (extensionOf(fileName)) {
+    case 'md':
+    case 'markdown':
+      return [parseMarkdown(text, fileName)];
+    case 'txt':
+      return [parseText(text, fileName)];
+    case 'json':
+      return parseJson(text, fileName);
+    default:
+      throw new Error(t('import.error.unsupported'));
+  }
+};
+
+export const parseImportFiles = async (files: File[]): Promise<ImportResult> => {
+  const result: ImportResult = { notes: [], errors: [] };
+
+  for (const file of files) {
+    try {
+      if (file.size > MAX_IMPORT_FILE_SIZE) {
+        throw new Error(t('import.error.tooLarge', { size: formatFileSize(MAX_IMPORT_FILE_SIZE) }));
+      }
+      if (extensionOf(file.name) !== 'zip') {
+        result.notes.push(...parseEntry(file.name, await file.text()));
+        continue;
+      }
+
+      let unpacked = 0;
+      let skipped = 0;
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: (entry) => {
+          // Skip folders and the metadata macOS adds to archives
+          if (entry.name.endsWith('/') || entry.name.startsWith('__MACOSX/')) return false;
+          // fflate sizes its output by the declared size, so this bounds memory too
+          if (unpacked + entry.originalSize > MAX_UNPACKED_SIZE) {
+            skipped++;
+            return false;
+          }
+          unpacked += entry.originalSize;
+          return true;
+        }
+      });
+      if (skipped > 0) {
+        result.errors.push(`${file.name}: ${t('import.error.unpackedTooLarge', {
+          count: skipped,
+          size: formatFileSize(MAX_UNPACKED_SIZE)
+        })}`);
+      }
+      for (const [name, data] of Object.entries(entries)) {
+        try {
+          result.notes.push(...parseEntry(name, strFromU8(data)));
+        } catch (error) {
+          result.errors.push(`${file.name}/${name}: ${error instanceof Error ? error.message : t('import.error.unreadable')}`);
+        }
+      }
+    } catch (error) {
+      result.errors.push(`${file.name}: ${error instanceof Error ? error.message : t('import.error.unreadable')}`);
+    }
+  }
+
+  return result;
+};
+
+// Titles match case- and whitespace-insensitively
+export const titleKey = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
@@ -0,0 +1,53 @@
+import type { Note } from '../types/note';
+
+// Helpers for the Notes, Archive and Trash views
+
+export type NoteView = 'notes' | 'archive' | 'trash';
+
+// The server purges trashed notes after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fill in fields that notes saved by older versions of the API don't have
+export const normalizeNote = (note: Note): Note => ({
+  ...note,
+  tags: Array.isArray(note.tags) ? note.tags : [],
+  isPinned: Boolean(note.isPinned),
+  isArchived: Boolean(note.isArchived),
+  deletedAt: note.deletedAt ?? null,
+  attachments: Array.isArray(note.attachments) ? note.attachments : []
+});
+
+export const daysUntilPurge = (note: Note): number => {
+  if (!note.deletedAt) return TRASH_RETENTION_DAYS;
+  const elapsed = Date.now() - new Date(note.deletedAt).getTime();
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+// In the trash for longer than the retention period, so gone from the server
+export const isPurged = (note: Note): boolean => note.deletedAt !== null && daysUntilPurge(note) === 0;
+
+export const isInView = (note: Note, view: NoteView): boolean => {
+  switch (view) {
+    case 'trash':
+      return note.deletedAt !== null && !isPurged(note);
+    case 'archive':
+      return note.deletedAt === null && note.isArchived;
+    default:
+      return note.deletedAt === null && !note.isArchived;
+  }
+};
+
+export const selectNotesForView = (notes: Note[], view: NoteView): Note[] => {
+  const selected = notes.filter((note) => isInView(note, view));
+
+  if (view === 'trash') {
+    return selected.sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }
+  if (view === 'notes') {
+    // Stable sort keeps the newest-first order within pinned and unpinned groups
+    return selected.sort((a, b) => Number(b.isPinned) - Number(a.isPinned));
+  }
+  return selected;
+};
@@ -0,0 +1,71 @@
+import { API_BASE_URL } from './api';
+import { t } from './i18n';
+
+// Redirect-based sign-in with an identity provider. The API sends the browser
+// back to /auth/callback with either tokens or a one-time `code`, plus the
+// `state` we generated so the callback can tell it started the flow.
+
+const STATE_KEY = 'oauthState';
+// Abandoned attempts can't be completed after this long
+const STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+export const OAUTH_CALLBACK_PATH = '/auth/callback';
+
+export interface OAuthAttempt {
+  state: string;
+  provider: string;
+  // Where to go after signing in
+  returnTo: string;
+  remember: boolean;
+  startedAt: number;
+}
+
+export const getOAuthRedirectUri = () => `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+
+export const startOAuthSignIn = (provider: string, { returnTo, remember }: Pick<OAuthAttempt, 'returnTo' | 'remember'>) => {
+  const attempt: OAuthAttempt = { state: crypto.randomUUID(), provider, returnTo, remember, startedAt: Date.now() };
+  sessionStorage.setItem(STATE_KEY, JSON.stringify(attempt));
+
+  const params = new URLSearchParams({ state: attempt.state, redirect_uri: getOAuthRedirectUri() });
+
+  // The mock backend has no provider to send the user to, so skip straight back
+  if (import.meta.env.VITE_USE_MOCK_API === 'true') {
+    params.set('code', `mock-${provider}`);
+    window.location.assign(`${OAUTH_CALLBACK_PATH}?${params}`);
+    return;
+  }
+
+  window.location.assign(`${API_BASE_URL}/auth/${encodeURIComponent(provider)}?${params}`);
+};
+
+// Returns the attempt matching `state` and forgets it, so a callback URL can
+// only be used once
+export const consumeOAuthAttempt = (state: string | null): OAuthAttempt | null => {
+  const stored = sessionStorage.getItem(STATE_KEY);
+  sessionStorage.removeItem(STATE_KEY);
+  if (!stored || !state) return null;
+
+  try {
+    const attempt: OAuthAttempt = JSON.parse(stored);
+    if (attempt.state !== state || Date.now() - attempt.startedAt > STATE_MAX_AGE_MS) return null;
+    return attempt;
+  } catch {
+    return null;
+  }
+};
+
+// Standard OAuth error codes a provider may send back
+const knownErrors = [
+  'access_denied',
+  'consent_required',
+  'interaction_required',
+  'login_required',
+  'temporarily_unavailable',
+  'server_error'
+] as const;
+
+const isKnownError = (error: string): error is (typeof knownErrors)[number] =>
+  (knownErrors as readonly string[]).includes(error);
+
+export const describeOAuthError = (error: string, description?: string | null): string =>
+  isKnownError(error) ? t(`oauth.${error}`) : description ?? t('oauth.failed');
@@ -0,0 +1,131 @@
+import type { Note, NoteChanges } from '../types/note';
+
+// IndexedDB persistence for the notes cache and the offline outbox
+
+const DB_NAME = 'highway-notes';
+const DB_VERSION = 1;
+const NOTES_STORE = 'notes';
+const OUTBOX_STORE = 'outbox';
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  id?: number;
+  operation: OutboxOperation;
+  noteId: string;
+  payload?: NoteChanges;
+  // Server `updatedAt` the change was based on, used to detect conflicting deletes
+  baseUpdatedAt?: string;
+  status: 'pending' | 'failed';
+  error?: string;
+  queuedAt: string;
+}
+
+const LOCAL_ID_PREFIX = 'local-';
+
+export const createLocalId = (): string => `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(NOTES_STORE)) {
+          db.createObjectStore(NOTES_STORE, { keyPath: '_id' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Notes cache
+
+export const getCachedNotes = async (): Promise<Note[]> => {
+  const notes = await withStore<Note[]>(NOTES_STORE, 'readonly', (store) => store.getAll());
+  return notes ?? [];
+};
+
+export const replaceCachedNotes = async (notes: Note[]): Promise<void> => {
+  await withStore(NOTES_STORE, 'readwrite', (store) => {
+    store.clear();
+    notes.forEach((note) => store.put(note));
+  });
+};
+
+export const putCachedNote = async (note: Note): Promise<void> => {
+  await withStore(NOTES_STORE, 'readwrite', (store) => store.put(note));
+};
+
+export const removeCachedNote = async (noteId: string): Promise<void> => {
+  await withStore(NOTES_STORE, 'readwrite', (store) => store.delete(noteId));
+};
+
+// Outbox
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+  // Keys are auto-incremented, so sorting by id preserves queue order
+  return (entries ?? []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+export const addOutboxEntry = async (entry: OutboxEntry): Promise<OutboxEntry> => {
+  const id = await withStore<IDBValidKey>(OUTBOX_STORE, 'readwrite', (store) => store.add(entry));
+  return { ...entry, id: id as number };
+};
+
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+};
+
+export const removeOutboxEntries = async (ids: number[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => {
+    ids.forEach((id) => store.delete(id));
+  });
+};
+
+export const clearOfflineStore = async (): Promise<void> => {
+  await withStore(NOTES_STORE, 'readwrite', (store) => store.clear());
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.clear());
+};
+
+// Every tab shares the outbox, so reads-then-writes on it (and replaying an
+// entry) hold this lock to stop two tabs sending or folding into the same entry
+const OUTBOX_LOCK = 'highway-notes-outbox';
+
+export const withOutboxLock = <T>(task: () => Promise<T>): Promise<T> => {
+  if (!navigator.locks) return task();
+  return navigator.locks.request(OUTBOX_LOCK, task);
+};
@@ -0,0 +1,48 @@
+// Client-side OTP rate limit, stored per email in localStorage so reloading
+// the page doesn't reset it
+
+const STORAGE_PREFIX = 'otpCooldown:';
+
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+export const OTP_MAX_REQUESTS = 5;
+const OTP_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface OtpCooldown {
+  // Seconds until another code may be requested, 0 when allowed
+  secondsLeft: number;
+  // Whether OTP_MAX_REQUESTS were sent within the last hour
+  isLimited: boolean;
+}
+
+const storageKey = (email: string) => STORAGE_PREFIX + email.trim().toLowerCase();
+
+// Timestamps of the requests made inside the current limit window
+const readRequests = (email: string, now: number): number[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(email)) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((time): time is number => typeof time === 'number' && now - time < OTP_LIMIT_WINDOW_MS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const getOtpCooldown = (email: string, now = Date.now()): OtpCooldown => {
+  if (!email) return { secondsLeft: 0, isLimited: false };
+
+  const requests = readRequests(email, now);
+  if (requests.length >= OTP_MAX_REQUESTS) {
+    // Locked until the oldest request in the window expires
+    return { secondsLeft: Math.ceil((requests[0] + OTP_LIMIT_WINDOW_MS - now) / 1000), isLimited: true };
+  }
+
+  const last = requests[requests.length - 1];
+  const secondsLeft = last ? Math.ceil((last + OTP_RESEND_COOLDOWN_SECONDS * 1000 - now) / 1000) : 0;
+  return { secondsLeft: Math.max(0, secondsLeft), isLimited: false };
+};
+
+export const recordOtpRequest = (email: string, now = Date.now()): void => {
+  const requests = [...readRequests(email, now), now];
+  localStorage.setItem(storageKey(email), JSON.stringify(requests));
+};
@@ -0,0 +1,17 @@
+import type { Location } from 'react-router-dom';
+
+// ProtectedRoute stores the page a signed-out user asked for in the router
+// state as `from`. The sign-in and sign-up pages pass it along to each other
+// and return there once the user is signed in.
+
+export interface RedirectState {
+  from?: Location;
+}
+
+// Where signing in lands when no page was asked for, however the user got there
+export const DEFAULT_REDIRECT = '/welcome';
+
+export const getRedirectTarget = (state: unknown, fallback = DEFAULT_REDIRECT): string => {
+  const from = (state as RedirectState | null)?.from;
+  return from ? `${from.pathname}${from.search}${from.hash}` : fallback;
+};
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import type { Attachment, Note, NoteVersion } from '../types/note';
+import type { SharedNote, ShareLink } from '../types/share';
+import type { User } from '../types/user';
+
+// Runtime contracts for API responses. A backend change that breaks one of
+// these surfaces as an INVALID_RESPONSE ApiError at the call site instead of
+// an undefined value somewhere deep in the UI.
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  dateOfBirth: z.string().nullish().transform((value) => value ?? undefined),
+  isEmailVerified: z.boolean().default(false)
+}) satisfies z.ZodType<User>;
+
+export const attachmentSchema = z.object({
+  _id: z.string(),
+  noteId: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+  url: z.string(),
+  createdAt: z.string()
+}) satisfies z.ZodType<Attachment>;
+
+// Fields added after launch default so older notes still validate
+export const noteSchema = z.object({
+  _id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()).default([]),
+  isPinned: z.boolean().default(false),
+  isArchived: z.boolean().default(false),
+  deletedAt: z.string().nullish().transform((value) => value ?? null),
+  attachments: z.array(attachmentSchema).default([]),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}) satisfies z.ZodType<Note>;
+
+export const noteVersionSchema = z.object({
+  _id: z.string(),
+  noteId: z.string(),
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()).default([]),
+  createdAt: z.string()
+}) satisfies z.ZodType<NoteVersion>;
+
+export const shareLinkSchema = z.object({
+  token: z.string(),
+  noteId: z.string(),
+  noteTitle: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().nullish().transform((value) => value ?? null)
+}) satisfies z.ZodType<ShareLink>;
+
+export const sharedNoteSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()).default([]),
+  updatedAt: z.string()
+}) satisfies z.ZodType<SharedNote>;
+
+export const authResponseSchema = z.object({
+  token: z.string(),
+  // Only sent by servers that issue short-lived access tokens
+  refreshToken: z.string().optional(),
+  user: userSchema
+});
+
+export const refreshResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional()
+});
+
+export const userResponseSchema = z.object({
+  user: userSchema
+});
+
+export const noteResponseSchema = z.object({
+  note: noteSchema
+});
+
+export const noteListResponseSchema = z.object({
+  notes: z.array(noteSchema),
+  nextCursor: z.string().nullish().transform((value) => value ?? null)
+});
+
+// The note comes back too, since the upload changes its updatedAt
+export const attachmentResponseSchema = z.object({
+  attachment: attachmentSchema,
+  note: noteSchema
+});
+
+export const noteVersionListResponseSchema = z.object({
+  versions: z.array(noteVersionSchema)
+});
+
+export const shareLinkResponseSchema = z.object({
+  share: shareLinkSchema
+});
+
+export const shareLinkListResponseSchema = z.object({
+  shares: z.array(shareLinkSchema)
+});
+
+export const sharedNoteResponseSchema = z.object({
+  note: sharedNoteSchema
+});
+
+export const messageResponseSchema = z.object({
+  message: z.string().optional()
+});
+
+// For endpoints whose body we don't use (e.g. DELETE may answer 204 No Content)
+export const ignoredResponseSchema = z.unknown();
@@ -0,0 +1,101 @@
+import type { Note } from '../types/note';
+import { matchesTags } from './tags';
+import type { TagMatchMode } from './tags';
+
+// Search and filter helpers for the notes list
+
+export type NoteDateField = 'createdAt' | 'updatedAt';
+
+export interface NoteFilters {
+  query: string;
+  dateField: NoteDateField;
+  from: string;
+  to: string;
+  tags: string[];
+  tagMode: TagMatchMode;
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Split a query into lower-cased terms; every term must match for a note to be kept
+export const getSearchTerms = (query: string): string[] => {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+};
+
+export const hasActiveFilters = (filters: NoteFilters): boolean => {
+  return Boolean(filters.query.trim() || filters.from || filters.to || filters.tags.length);
+};
+
+const isWithinDateRange = (value: string, from: string, to: string): boolean => {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) return false;
+
+  // Range inputs are plain YYYY-MM-DD dates, compared in local time
+  if (from && time < new Date(`${from}T00:00:00`).getTime()) return false;
+  if (to && time > new Date(`${to}T23:59:59.999`).getTime()) return false;
+  return true;
+};
+
+export const filterNotes = (notes: Note[], filters: NoteFilters): Note[] => {
+  const terms = getSearchTerms(filters.query);
+
+  return notes.filter((note) => {
+    if (!matchesTags(note, filters.tags, filters.tagMode)) {
+      return false;
+    }
+
+    if ((filters.from || filters.to) && !isWithinDateRange(note[filters.dateField], filters.from, filters.to)) {
+      return false;
+    }
+
+    if (terms.length === 0) return true;
+
+    const haystack = `${note.title}\n${note.content}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+// Break text into matching and non-matching segments for highlighting
+export const splitByTerms = (text: string, terms: string[]): TextSegment[] => {
+  if (terms.length === 0 || !text) {
+    return [{ text, match: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
+
+// Filters are kept in the URL (?q=&field=&from=&to=&tags=&tagMode=) so searches can be shared
+export const parseFilters = (params: URLSearchParams): NoteFilters => ({
+  query: params.get('q') || '',
+  dateField: params.get('field') === 'updatedAt' ? 'updatedAt' : 'createdAt',
+  from: params.get('from') || '',
+  to: params.get('to') || '',
+  tags: (params.get('tags') || '').split(',').filter(Boolean),
+  tagMode: params.get('tagMode') === 'all' ? 'all' : 'any'
+});
+
+export const filtersToParams = (filters: NoteFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.from || filters.to) params.set('field', filters.dateField);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.tags.length) {
+    params.set('tags', filters.tags.join(','));
+    params.set('tagMode', filters.tagMode);
+  }
+  return params;
+};
@@ -0,0 +1,35 @@
+import toast from 'react-hot-toast';
+import type { ShareLink } from '../types/share';
+import { formatDate, t } from './i18n';
+
+// Helpers for public read-only note links
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until a new link expires; null never expires
+export const shareExpiryOptions: (number | null)[] = [null, 1, 7, 30];
+
+export const describeExpiryOption = (days: number | null): string =>
+  days === null ? t('share.expiry.never') : t('share.expiry.days', { count: days });
+
+export const expiryFromNow = (days: number | null): string | null => {
+  return days === null ? null : new Date(Date.now() + days * DAY_MS).toISOString();
+};
+
+export const getShareUrl = (link: ShareLink): string => `${window.location.origin}/shared/${link.token}`;
+
+export const describeExpiry = (link: ShareLink): string => {
+  if (!link.expiresAt) return t('share.expiry.neverExpires');
+  return t('share.expiry.expires', {
+    date: formatDate(link.expiresAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+  });
+};
+
+export const copyShareLink = async (link: ShareLink) => {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(link));
+    toast.success(t('share.toast.copied'));
+  } catch {
+    toast.error(t('share.toast.copyFailed'));
+  }
+};
@@ -0,0 +1,66 @@
+import type { MessageKey } from '../locales/en';
+
+// Keyboard shortcut matching and the list shown in the "?" overlay.
+// Combos are written like "mod+k", "shift+q" or "?"; `mod` is Cmd on macOS
+// and Ctrl elsewhere.
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const matchesHotkey = (event: KeyboardEvent, combo: string): boolean => {
+  const parts = combo.toLowerCase().split('+');
+  const key = parts.pop();
+  const wants = new Set(parts);
+
+  const mod = isMac ? event.metaKey : event.ctrlKey;
+  const otherModifier = isMac ? event.ctrlKey : event.metaKey;
+  if (mod !== wants.has('mod') || otherModifier || event.altKey !== wants.has('alt')) return false;
+  // Symbols like "?" and "#" need Shift on most layouts, so only letters and named keys check it
+  if (key && (key.length > 1 || /[a-z]/.test(key)) && event.shiftKey !== wants.has('shift')) return false;
+
+  return event.key.toLowerCase() === key;
+};
+
+// Plain keys shouldn't fire while the user is typing in a field
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset'].includes(target.type);
+};
+
+// Every modal in the app is marked aria-modal
+export const isDialogOpen = (): boolean => document.querySelector('[aria-modal="true"]') !== null;
+
+// Sent to the note list in router state by shortcuts and the palette on other pages
+export type NoteListCommand = 'new-note' | 'search';
+
+export interface ShortcutGroup {
+  title: MessageKey;
+  shortcuts: { keys: string[]; description: MessageKey }[];
+}
+
+const modLabel = isMac ? '⌘' : 'Ctrl';
+
+export const shortcutGroups: ShortcutGroup[] = [
+  {
+    title: 'shortcuts.group.anywhere',
+    shortcuts: [
+      { keys: [modLabel, 'K'], description: 'shortcuts.openPalette' },
+      { keys: ['?'], description: 'shortcuts.showHelp' },
+      { keys: ['Shift', 'Q'], description: 'shortcuts.signOut' }
+    ]
+  },
+  {
+    title: 'shortcuts.group.noteList',
+    shortcuts: [
+      { keys: ['N'], description: 'shortcuts.newNote' },
+      { keys: ['/'], description: 'shortcuts.search' },
+      { keys: ['J'], description: 'shortcuts.next' },
+      { keys: ['K'], description: 'shortcuts.previous' },
+      { keys: ['Enter'], description: 'shortcuts.open' },
+      { keys: ['#'], description: 'shortcuts.delete' },
+      { keys: ['Esc'], description: 'shortcuts.clearSelection' }
+    ]
+  }
+];
@@ -0,0 +1,41 @@
+import type { Note } from '../types/note';
+import type { User } from '../types/user';
+
+// Messages between open tabs of the app, so a change made in one is applied in
+// the others without them going back to the server
+
+export type TabMessage =
+  | { type: 'auth:login'; accessToken: string; refreshToken?: string; user: User; remember: boolean }
+  | { type: 'auth:logout'; userId: string }
+  | { type: 'auth:tokens'; userId: string; accessToken: string; refreshToken?: string }
+  | { type: 'auth:user'; user: User }
+  | { type: 'auth:activity' }
+  // `idMap` maps local ids of newly synced notes to their server ids
+  | { type: 'notes:changed'; userId: string; upserted: Note[]; removed: string[]; idMap: Record<string, string> }
+  | { type: 'notes:outbox'; userId: string };
+
+const CHANNEL_NAME = 'highway-notes';
+
+let channel: BroadcastChannel | null = null;
+
+// Created lazily; browsers without BroadcastChannel simply don't sync tabs
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+// Sent to every other tab; the sending tab doesn't receive its own messages
+export const broadcastToTabs = (message: TabMessage): void => {
+  getChannel()?.postMessage(message);
+};
+
+export const subscribeToTabs = (listener: (message: TabMessage) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => undefined;
+
+  const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+};
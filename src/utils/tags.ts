@@ -0,0 +1,41 @@
+import type { Note } from '../types/note';
+
+// Tag helpers shared by the note form, the tag filter and the tag manager
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_NOTE = 10;
+
+export type TagMatchMode = 'any' | 'all';
+
+export interface TagSummary {
+  tag: string;
+  count: number;
+}
+
+// Tags are case-insensitive and single-spaced so "Work" and " work " are one tag
+export const normalizeTag = (tag: string): string => {
+  return tag.replace(/,/g, ' ').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+};
+
+export const collectTags = (notes: Note[]): TagSummary[] => {
+  const counts = new Map<string, number>();
+  notes.forEach((note) => {
+    note.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const matchesTags = (note: Note, selected: string[], mode: TagMatchMode): boolean => {
+  if (selected.length === 0) return true;
+  return mode === 'all'
+    ? selected.every((tag) => note.tags.includes(tag))
+    : selected.some((tag) => note.tags.includes(tag));
+};
+
+// Renaming onto a tag the note already has merges the two
+export const replaceTag = (tags: string[], from: string, to: string): string[] => {
+  return [...new Set(tags.map((tag) => (tag === from ? to : tag)))];
+};
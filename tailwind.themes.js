@@ -0,0 +1,149 @@
+import colors from 'tailwindcss/colors';
+import plugin from 'tailwindcss/plugin';
+
+// Every color utility reads a CSS variable instead of a fixed hex value, so
+// dark mode and accent themes only swap variables and page markup stays the
+// same. Each palette step gets three variables (--bg-*, --text-*, --border-*)
+// because dark mode moves backgrounds and text in opposite directions.
+
+const steps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// The palettes the app has always used
+const primary = {
+  50: '#eff6ff',
+  100: '#dbeafe',
+  200: '#bfdbfe',
+  300: '#93c5fd',
+  400: '#60a5fa',
+  500: '#3b82f6',
+  600: '#2563eb',
+  700: '#1d4ed8',
+  800: '#1e40af',
+  900: '#1e3a8a',
+  950: colors.blue[950],
+};
+
+const blue = {
+  50: '#f0f9ff',
+  100: '#e0f2fe',
+  200: '#bae6fd',
+  300: '#7dd3fc',
+  400: '#38bdf8',
+  500: '#0ea5e9',
+  600: '#0284c7',
+  700: '#0369a1',
+  800: '#075985',
+  900: '#0c4a6e',
+  950: colors.sky[950],
+};
+
+// Accent themes recolor the primary and blue palettes. To ship another one,
+// add it here and list it in accentThemes (src/config/themes.ts).
+export const accents = {
+  blue: { primary, blue },
+  violet: { primary: colors.violet, blue: colors.purple },
+  emerald: { primary: colors.emerald, blue: colors.teal },
+  rose: { primary: colors.rose, blue: colors.pink },
+};
+
+export const defaultAccent = 'blue';
+
+const accentPalettes = Object.keys(accents[defaultAccent]);
+
+const fixedPalettes = {
+  gray: colors.gray,
+  red: colors.red,
+  green: colors.green,
+  amber: colors.amber,
+  yellow: colors.yellow,
+  indigo: colors.indigo,
+  purple: colors.purple,
+};
+
+const paletteNames = [...accentPalettes, ...Object.keys(fixedPalettes)];
+
+const roles = ['bg', 'text', 'border'];
+
+// In dark mode gray is mirrored (gray-50 pages become gray-950), while colored
+// palettes only darken their tints and lighten their text shades so buttons
+// like bg-blue-600 keep their color.
+const mirrored = Object.fromEntries(steps.map((step, index) => [step, steps[steps.length - 1 - index]]));
+
+const darkSteps = {
+  gray: {
+    bg: mirrored,
+    text: { ...mirrored, 400: 500, 500: 400 },
+    border: mirrored,
+  },
+  tinted: {
+    bg: { 50: 950, 100: 900, 200: 800, 300: 700 },
+    text: { 500: 400, 600: 400, 700: 300, 800: 200, 900: 100, 950: 50 },
+    border: { 50: 900, 100: 800, 200: 800, 300: 700 },
+  },
+};
+
+// '#3b82f6' -> '59 130 246', the form rgb(var(...) / <alpha-value>) expects
+const toChannels = (hex) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+const paletteVars = (palettes) =>
+  Object.fromEntries(
+    Object.entries(palettes).flatMap(([name, palette]) =>
+      steps.map((step) => [`--palette-${name}-${step}`, toChannels(palette[step])])
+    )
+  );
+
+const roleVars = (names, isDark) =>
+  Object.fromEntries(
+    names.flatMap((name) => {
+      const shifts = darkSteps[name === 'gray' ? 'gray' : 'tinted'];
+      return roles.flatMap((role) =>
+        steps.map((step) => [
+          `--${role}-${name}-${step}`,
+          `var(--palette-${name}-${isDark ? shifts[role][step] ?? step : step})`,
+        ])
+      );
+    })
+  );
+
+const utilityColors = (role) =>
+  Object.fromEntries(
+    paletteNames.map((name) => [
+      name,
+      Object.fromEntries(steps.map((step) => [step, `rgb(var(--${role}-${name}-${step}) / <alpha-value>)`])),
+    ])
+  );
+
+export const themeColors = {
+  colors: utilityColors('text'),
+  backgroundColor: { ...utilityColors('bg'), white: 'rgb(var(--bg-white) / <alpha-value>)' },
+  gradientColorStops: utilityColors('bg'),
+  borderColor: { ...utilityColors('border'), DEFAULT: 'rgb(var(--border-gray-200) / <alpha-value>)' },
+  ringOffsetColor: { DEFAULT: 'rgb(var(--bg-white))' },
+};
+
+export const themeVariables = plugin(({ addBase }) => {
+  addBase({
+    ':root': {
+      ...paletteVars(fixedPalettes),
+      ...paletteVars(accents[defaultAccent]),
+      ...roleVars(paletteNames, false),
+      '--bg-white': '255 255 255',
+      'color-scheme': 'light',
+    },
+    // Redeclared wherever an accent is set so previews like
+    // <span data-accent="rose"> resolve against their own palette
+    '[data-accent]': roleVars(accentPalettes, false),
+    ...Object.fromEntries(
+      Object.entries(accents).map(([id, palettes]) => [`[data-accent="${id}"]`, paletteVars(palettes)])
+    ),
+    '.dark': {
+      ...roleVars(paletteNames, true),
+      '--bg-white': 'var(--palette-gray-900)',
+      'color-scheme': 'dark',
+    },
+    '.dark [data-accent]': roleVars(accentPalettes, true),
+  });
+});
@@ -1,7 +1,20 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { locales } from './src/config/locales'
+
+// The inline script in index.html sets the page direction before the app
+// loads; fill in which languages are right-to-left from the app's own list
+const localeDirections = (): Plugin => ({
+  name: 'locale-directions',
+  transformIndexHtml: (html) =>
+    html.replace(
+      '__RTL_LOCALES__',
+      JSON.stringify(locales.filter((option) => option.dir === 'rtl').map((option) => option.id))
+    ),
+})
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), localeDirections()],
 })